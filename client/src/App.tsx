@@ -3,7 +3,10 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/NotFound";
 import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
+import { DetectionEngineProvider } from "./contexts/DetectionEngineContext";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import Benchmark from "./pages/Benchmark";
+import History from "./pages/History";
 import Home from "./pages/Home";
 
 
@@ -11,6 +14,8 @@ function Router() {
   return (
     <Switch>
       <Route path={"/"} component={Home} />
+      <Route path={"/history"} component={History} />
+      <Route path={"/benchmark"} component={Benchmark} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
       <Route component={NotFound} />
@@ -30,10 +35,12 @@ function App() {
         defaultTheme="dark"
         // switchable
       >
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
+        <DetectionEngineProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </DetectionEngineProvider>
       </ThemeProvider>
     </ErrorBoundary>
   );
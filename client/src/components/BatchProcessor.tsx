@@ -1,23 +1,45 @@
-import * as tf from '@tensorflow/tfjs';
-import * as cocoSsd from '@tensorflow-models/coco-ssd';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import BlobImage from './BlobImage';
+import DatasetExportDialog from './DatasetExportDialog';
+import EvaluationPanel from './EvaluationPanel';
+import StorageUsage from './StorageUsage';
+import VideoExportControl from './VideoExportControl';
+import VideoResultViewer from './VideoResultViewer';
+import SamplingOptions from './SamplingOptions';
+import ZonesPanel from './ZonesPanel';
 import { Upload, Loader2, Download, Trash2, Play, Pause } from 'lucide-react';
-import { useState, useRef, useEffect } from 'react';
-
-interface Detection {
-  class: string;
-  score: number;
-  bbox: [number, number, number, number];
+import { useDetectionEngine } from '@/contexts/DetectionEngineContext';
+import { useZoneDraft } from '@/hooks/useZoneDraft';
+import { loadImage, renderAnnotatedImage } from '@/lib/annotate';
+import { datasetFileName, videoFrameImages, type DatasetImage } from '@/lib/dataset';
+import { createDatasetZip, type DatasetExportOptions } from '@/lib/datasetExport';
+import { drawDetections, formatDetectionName, type Detection } from '@/lib/detection';
+import { downloadBlob } from '@/lib/download';
+import { EVALUATION_DETECT_OPTIONS } from '@/lib/evaluation';
+import { isGroundTruthFile, mergeGroundTruth, readGroundTruthFile, type GroundTruth } from '@/lib/groundTruth';
+import { drawCountingLines, LineCounter, loadCountingLines } from '@/lib/lineCounter';
+import { batchResultStore, byNewest, canvasToBlob, reportStorageError, type ProcessedFile } from '@/lib/storage';
+import { attachTrackIds, MultiObjectTracker } from '@/lib/tracker';
+import { lastSeenDetections, type VideoTimelineEntry } from '@/lib/videoExport';
+import { loadSamplingStrategy, openVideo, sampleVideo, saveSamplingStrategy, type SamplingStrategy } from '@/lib/videoSampling';
+import {
+  computeZoneOccupancy,
+  createZone,
+  drawZones,
+  filterDetectionsByZones,
+  type Zone,
+} from '@/lib/zones';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+
+interface BatchProcessorProps {
+  zones: Zone[];
+  onZonesChange: (zones: Zone[]) => void;
 }
 
-interface ProcessedFile {
-  id: string;
-  name: string;
-  type: 'image' | 'video';
-  detections: Detection[];
-  imageData?: string;
-  timestamp: Date;
-}
+// Zone edits arrive on every drag step; results are redrawn and saved once they settle
+const ZONE_REDRAW_DELAY_MS = 400;
 
 /**
  * BatchProcessor Component
@@ -29,189 +51,199 @@ interface ProcessedFile {
  * - Exports batch processing results
  * - Glass-morphism design with cyan accents
  */
-export default function BatchProcessor() {
+export default function BatchProcessor({ zones, onZonesChange }: BatchProcessorProps) {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [showDatasetExport, setShowDatasetExport] = useState(false);
+  const [processingStatus, setProcessingStatus] = useState<{ name: string; progress: number } | null>(null);
+  const [samplingStrategy, setSamplingStrategy] = useState<SamplingStrategy>(loadSamplingStrategy);
   const [processedFiles, setProcessedFiles] = useState<ProcessedFile[]>([]);
-  const [currentFile, setCurrentFile] = useState<ProcessedFile | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [groundTruth, setGroundTruth] = useState<GroundTruth>(new Map());
+  const [currentFileId, setCurrentFileId] = useState<string | null>(null);
   const [isPlayingVideo, setIsPlayingVideo] = useState(false);
   const animationFrameRef = useRef<number | null>(null);
   const videoFrameCountRef = useRef(0);
-  const modelRef = useRef<cocoSsd.ObjectDetection | null>(null);
+  const { detect, engine } = useDetectionEngine();
+  const zoneDraft = useZoneDraft(points => onZonesChange([...zones, createZone(points, zones.length)]));
+  const currentFile = processedFiles.find(file => file.id === currentFileId) ?? null;
+  const zonesRef = useRef(zones);
+
+  const visibleDetections = (file: ProcessedFile) =>
+    filterDetectionsByZones(file.detections, zones, file.width, file.height);
+
+  // A video's sampled frames with only the detections the zones let through
+  const visibleTimeline = (file: ProcessedFile): VideoTimelineEntry[] =>
+    (file.timeline ?? []).map(entry => ({
+      ...entry,
+      detections: filterDetectionsByZones(entry.detections, zones, file.width, file.height),
+    }));
+
+  // Per-frame rows for videos, so every detection carries its media time
+  const timedDetections = (file: ProcessedFile): { timeMs?: number; detection: Detection }[] =>
+    file.timeline
+      ? visibleTimeline(file).flatMap(entry =>
+          entry.detections.map(detection => ({ timeMs: entry.timeMs, detection }))
+        )
+      : visibleDetections(file).map(detection => ({ detection }));
+  const currentTimeline = useMemo(() => (currentFile ? visibleTimeline(currentFile) : []), [currentFile, zones]);
+
+  // Restore the results of earlier sessions
+  useEffect(() => {
+    batchResultStore.getAll()
+      .then(stored => setProcessedFiles(current => [...current, ...stored.sort(byNewest(file => file.timestamp))]))
+      .catch(error => console.error('Error loading batch results:', error));
+  }, []);
 
-  // Initialize model on component mount
+  // Redraw processed images when the zones change
   useEffect(() => {
-    const initModel = async () => {
-      try {
-        const model = await cocoSsd.load();
-        modelRef.current = model;
-      } catch (error) {
-        console.error('Error loading model for batch processing:', error);
+    zonesRef.current = zones;
+    let cancelled = false;
+
+    const redraw = async () => {
+      const images = processedFiles.filter(file => file.sourceImage);
+      const rendered = new Map<string, Blob>();
+      for (const file of images) {
+        if (cancelled) return;
+        rendered.set(file.id, await renderAnnotatedImage(await loadImage(file.sourceImage!), file.detections, zones));
       }
+      if (cancelled) return;
+      setProcessedFiles(current => current.map(file => {
+        if (!rendered.has(file.id)) return file;
+        const updated = { ...file, image: rendered.get(file.id) };
+        batchResultStore.put(updated).catch(reportStorageError);
+        return updated;
+      }));
     };
-    initModel();
-  }, []);
+
+    const timeout = setTimeout(() => {
+      redraw().catch(error => console.error('Error redrawing images:', error));
+    }, ZONE_REDRAW_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [zones]);
 
   // Process image file
   const processImage = async (file: File): Promise<ProcessedFile | null> => {
-    return new Promise((resolve) => {
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        const img = new Image();
-        img.onload = async () => {
-          if (!modelRef.current) {
-            resolve(null);
-            return;
-          }
-
-          try {
-            const predictions = await modelRef.current.detect(img);
-            
-            const canvas = document.createElement('canvas');
-            canvas.width = img.width;
-            canvas.height = img.height;
-            const ctx = canvas.getContext('2d');
-            
-            if (ctx) {
-              ctx.drawImage(img, 0, 0);
-              
-              // Draw bounding boxes
-              predictions.forEach((prediction) => {
-                const [x, y, width, height] = prediction.bbox;
-                ctx.strokeStyle = '#00d9ff';
-                ctx.lineWidth = 2;
-                ctx.setLineDash([4, 2]);
-                ctx.strokeRect(x, y, width, height);
-                ctx.setLineDash([]);
-                
-                const label = `${prediction.class} ${(prediction.score * 100).toFixed(1)}%`;
-                ctx.font = 'bold 12px sans-serif';
-                const textMetrics = ctx.measureText(label);
-                ctx.fillStyle = '#00d9ff';
-                ctx.fillRect(x, y - 18, textMetrics.width + 4, 16);
-                ctx.fillStyle = '#0f1419';
-                ctx.fillText(label, x + 2, y - 4);
-              });
-
-              resolve({
-                id: Date.now().toString(),
-                name: file.name,
-                type: 'image',
-                detections: predictions.map(p => ({
-                  class: p.class,
-                  score: p.score,
-                  bbox: p.bbox as [number, number, number, number]
-                })),
-                imageData: canvas.toDataURL('image/png'),
-                timestamp: new Date()
-              });
-            }
-          } catch (error) {
-            console.error('Error processing image:', error);
-            resolve(null);
-          }
-        };
-        img.src = e.target?.result as string;
+    try {
+      const img = await loadImage(file);
+      // One pass down to the evaluation threshold; the results shown are the part of
+      // it the detection settings let through, the same boxes a pass with them finds
+      const options = engine.getDetectOptions();
+      const candidates = (await detect(img, {
+        maxNumBoxes: Math.max(options.maxNumBoxes, EVALUATION_DETECT_OPTIONS.maxNumBoxes),
+        minScore: Math.min(options.minScore, EVALUATION_DETECT_OPTIONS.minScore),
+      })).sort((a, b) => b.score - a.score);
+      const predictions = candidates.filter(d => d.score >= options.minScore).slice(0, options.maxNumBoxes);
+
+      // All detections are kept so zones can be redrawn later;
+      // filtering only affects what is drawn and reported
+      return {
+        id: crypto.randomUUID(),
+        name: file.name,
+        type: 'image',
+        detections: predictions,
+        candidates,
+        image: await renderAnnotatedImage(img, predictions, zonesRef.current),
+        sourceImage: file,
+        width: img.width,
+        height: img.height,
+        timestamp: new Date()
       };
-      reader.readAsDataURL(file);
-    });
+    } catch (error) {
+      console.error('Error processing image:', error);
+      return null;
+    }
   };
 
-  // Process video file
+  // Process video file, sampling frames with the selected strategy
   const processVideo = async (file: File): Promise<ProcessedFile | null> => {
-    return new Promise((resolve) => {
-      const video = document.createElement('video');
-      const reader = new FileReader();
-
-      reader.onload = (e) => {
-        video.src = e.target?.result as string;
-        video.onloadedmetadata = async () => {
-          if (!modelRef.current) {
-            resolve(null);
-            return;
-          }
+    let opened: Awaited<ReturnType<typeof openVideo>> | null = null;
+    try {
+      opened = await openVideo(file);
+      const { video } = opened;
+      const canvas = document.createElement('canvas');
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext('2d')!;
+
+      let allDetections: Detection[] = [];
+      const timeline: VideoTimelineEntry[] = [];
+      // Track across sampled frames so objects crossing a counting line are counted once
+      const zones = zonesRef.current;
+      // Confirmed on first sight, so objects seen in a single sample still get an ID
+      const tracker = new MultiObjectTracker({ minHits: 1 });
+      const countingLines = loadCountingLines();
+      const lineCounter = new LineCounter(countingLines);
+
+      await sampleVideo(video, samplingStrategy, async (timeMs) => {
+        ctx.drawImage(video, 0, 0);
+        // The timeline keeps the model's own boxes, all of them like image results so
+        // zones apply when shown; the tracker only lends them IDs and drives the counting.
+        // Samples can be far apart, so its predicted boxes for missed objects are not kept
+        const predictions = await detect(canvas);
+        const tracked = tracker.update(predictions, timeMs);
+        lineCounter.update(filterDetectionsByZones(tracked, zones, canvas.width, canvas.height), canvas.width, canvas.height);
+        allDetections = attachTrackIds(predictions, tracked);
+        timeline.push({ timeMs, detections: allDetections });
+      }, {
+        onProgress: progress => setProcessingStatus({ name: file.name, progress }),
+      });
 
-          try {
-            const canvas = document.createElement('canvas');
-            canvas.width = video.videoWidth;
-            canvas.height = video.videoHeight;
-            const ctx = canvas.getContext('2d');
-
-            if (!ctx) {
-              resolve(null);
-              return;
-            }
-
-            let allDetections: Detection[] = [];
-            let frameCount = 0;
-
-            const processFrame = async () => {
-              if (video.ended) {
-                // Draw final frame with all detections
-                ctx.drawImage(video, 0, 0);
-                
-                allDetections.forEach((detection) => {
-                  const [x, y, width, height] = detection.bbox;
-                  ctx.strokeStyle = '#00d9ff';
-                  ctx.lineWidth = 2;
-                  ctx.setLineDash([4, 2]);
-                  ctx.strokeRect(x, y, width, height);
-                  ctx.setLineDash([]);
-                  
-                  const label = `${detection.class} ${(detection.score * 100).toFixed(1)}%`;
-                  ctx.font = 'bold 12px sans-serif';
-                  const textMetrics = ctx.measureText(label);
-                  ctx.fillStyle = '#00d9ff';
-                  ctx.fillRect(x, y - 18, textMetrics.width + 4, 16);
-                  ctx.fillStyle = '#0f1419';
-                  ctx.fillText(label, x + 2, y - 4);
-                });
-
-                resolve({
-                  id: Date.now().toString(),
-                  name: file.name,
-                  type: 'video',
-                  detections: allDetections,
-                  imageData: canvas.toDataURL('image/png'),
-                  timestamp: new Date()
-                });
-                return;
-              }
-
-              // Sample every 5 frames
-              if (frameCount % 5 === 0) {
-                ctx.drawImage(video, 0, 0);
-                const predictions = await modelRef.current!.detect(canvas);
-                allDetections = predictions.map(p => ({
-                  class: p.class,
-                  score: p.score,
-                  bbox: p.bbox as [number, number, number, number]
-                }));
-              }
-
-              frameCount++;
-              video.currentTime += 1 / 30; // Move to next frame
-              setTimeout(processFrame, 100);
-            };
-
-            video.currentTime = 0;
-            processFrame();
-          } catch (error) {
-            console.error('Error processing video:', error);
-            resolve(null);
-          }
-        };
+      // Draw the last sampled frame with its detections
+      const visible = filterDetectionsByZones(allDetections, zones, canvas.width, canvas.height);
+      ctx.drawImage(video, 0, 0);
+      drawZones(ctx, zones, computeZoneOccupancy(visible, zones, canvas.width, canvas.height));
+      drawDetections(ctx, visible);
+      const counts = lineCounter.getCounts();
+      drawCountingLines(ctx, countingLines, counts);
+
+      return {
+        id: crypto.randomUUID(),
+        name: file.name,
+        type: 'video',
+        detections: lastSeenDetections(timeline),
+        image: await canvasToBlob(canvas),
+        width: canvas.width,
+        height: canvas.height,
+        timestamp: new Date(),
+        lineCounts: countingLines.map((line, i) => ({ line, count: counts[i] })),
+        source: file,
+        timeline
       };
+    } catch (error) {
+      console.error('Error processing video:', error);
+      return null;
+    } finally {
+      opened?.close();
+    }
+  };
 
-      reader.readAsArrayBuffer(file);
-    });
+  // Load COCO or VOC annotation files as ground truth for evaluation
+  const importGroundTruth = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const imported = await readGroundTruthFile(file);
+        setGroundTruth(current => mergeGroundTruth(current, imported));
+      } catch (error) {
+        console.error('Error reading annotations:', error);
+        toast.error(`Unable to read annotations from ${file.name}`);
+      }
+    }
   };
 
-  // Handle file selection
-  const handleFileSelect = async (files: FileList | null) => {
-    if (!files) return;
+  // Handle file selection; annotation files dropped alongside images are imported as ground truth
+  const handleFileSelect = async (selected: FileList | null) => {
+    if (!selected) return;
+
+    const annotations = Array.from(selected).filter(isGroundTruthFile);
+    const files = Array.from(selected).filter(file => !isGroundTruthFile(file));
+    await importGroundTruth(annotations);
+    if (files.length === 0) return;
 
     setIsProcessing(true);
     const newFiles: ProcessedFile[] = [];
@@ -220,29 +252,36 @@ export default function BatchProcessor() {
       const file = files[i];
       const isImage = file.type.startsWith('image/');
       const isVideo = file.type.startsWith('video/');
+      setProcessingStatus({ name: file.name, progress: 0 });
 
-      if (isImage) {
-        const result = await processImage(file);
-        if (result) newFiles.push(result);
-      } else if (isVideo) {
-        const result = await processVideo(file);
-        if (result) newFiles.push(result);
+      const result = isImage ? await processImage(file) : isVideo ? await processVideo(file) : null;
+      if (result) {
+        newFiles.unshift(result);
+        batchResultStore.put(result).catch(reportStorageError);
       }
     }
 
-    setProcessedFiles([...newFiles, ...processedFiles]);
+    setProcessedFiles(current => [...newFiles, ...current]);
     setIsProcessing(false);
+    setProcessingStatus(null);
+  };
+
+  const changeSamplingStrategy = (strategy: SamplingStrategy) => {
+    setSamplingStrategy(strategy);
+    saveSamplingStrategy(strategy);
   };
 
   // Export batch results as CSV
   const exportAsCSV = () => {
-    const headers = ['File Name', 'Object Class', 'Confidence', 'X', 'Y', 'Width', 'Height', 'Timestamp'];
+    const headers = ['File Name', 'Media Time (s)', 'Track ID', 'Object Class', 'Confidence', 'X', 'Y', 'Width', 'Height', 'Timestamp'];
     const rows: string[] = [];
 
     processedFiles.forEach(file => {
-      file.detections.forEach(d => {
+      timedDetections(file).forEach(({ timeMs, detection: d }) => {
         rows.push([
           file.name,
+          timeMs === undefined ? '' : (timeMs / 1000).toFixed(3),
+          d.trackId ?? '',
           d.class,
           (d.score * 100).toFixed(2),
           d.bbox[0].toFixed(2),
@@ -254,6 +293,21 @@ export default function BatchProcessor() {
       });
     });
 
+    const lineRows = processedFiles.flatMap(file => (file.lineCounts ?? []).map(({ line, count }) =>
+      [file.name, line.name, count.in, count.out].join(',')
+    ));
+    if (lineRows.length > 0) {
+      rows.push('', ['File Name', 'Counting Line', 'In', 'Out'].join(','), ...lineRows);
+    }
+    if (zones.length > 0) {
+      rows.push('', ['File Name', 'Zone', 'Occupancy'].join(','));
+      processedFiles.forEach(file => {
+        computeZoneOccupancy(visibleDetections(file), zones, file.width, file.height).forEach((occupancy, i) => {
+          rows.push([file.name, zones[i].name, occupancy.occupancy].join(','));
+        });
+      });
+    }
+
     const csv = [headers.join(','), ...rows].join('\n');
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
@@ -270,7 +324,22 @@ export default function BatchProcessor() {
       files: processedFiles.map(file => ({
         name: file.name,
         type: file.type,
-        detections: file.detections.map(d => ({
+        lineCounts: file.lineCounts?.map(({ line, count }) => ({
+          line: line.name,
+          in: count.in,
+          out: count.out,
+          byClass: count.byClass
+        })),
+        zones: zones.length > 0
+          ? computeZoneOccupancy(visibleDetections(file), zones, file.width, file.height).map((occupancy, i) => ({
+              name: zones[i].name,
+              occupancy: occupancy.occupancy,
+              byClass: occupancy.byClass
+            }))
+          : undefined,
+        detections: timedDetections(file).map(({ timeMs, detection: d }) => ({
+          timeMs,
+          trackId: d.trackId,
           class: d.class,
           confidence: (d.score * 100).toFixed(2),
           bbox: {
@@ -291,16 +360,63 @@ export default function BatchProcessor() {
     a.click();
   };
 
-  // Delete processed file
-  const deleteFile = (id: string) => {
-    setProcessedFiles(processedFiles.filter(f => f.id !== id));
-    if (currentFile?.id === id) {
-      setCurrentFile(null);
+  // Unannotated images with the detections the zones let through, one per sampled video frame
+  const datasetImages = async () => {
+    const images: DatasetImage[] = [];
+    for (const file of processedFiles) {
+      if (file.source && file.timeline) {
+        images.push(...await videoFrameImages(file.name, file.source, visibleTimeline(file), images.length));
+      } else if (file.sourceImage) {
+        images.push({
+          fileName: datasetFileName(images.length, file.name, file.sourceImage.type),
+          width: file.width,
+          height: file.height,
+          image: file.sourceImage,
+          detections: visibleDetections(file),
+        });
+      }
     }
+    return images;
+  };
+
+  // Export batch results as a labelled dataset ZIP
+  const exportDataset = async (options: DatasetExportOptions) => {
+    try {
+      const zip = await createDatasetZip(await datasetImages(), options, 'Detect AI batch results');
+      downloadBlob(zip, `batch-detections-${options.format}-${Date.now()}.zip`);
+    } catch (error) {
+      console.error('Error exporting dataset:', error);
+      toast.error('Unable to export dataset');
+    }
+  };
+
+  // Delete processed files, from the list and from storage
+  const deleteFiles = (ids: string[]) => {
+    setProcessedFiles(current => current.filter(f => !ids.includes(f.id)));
+    setSelectedIds(current => new Set(Array.from(current).filter(id => !ids.includes(id))));
+    batchResultStore.delete(ids).catch(error => console.error('Error deleting batch results:', error));
+    if (currentFileId && ids.includes(currentFileId)) {
+      setCurrentFileId(null);
+      zoneDraft.cancel();
+    }
+  };
+
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (selected) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
   };
 
   return (
     <div className="w-full flex flex-col gap-6">
+      <SamplingOptions strategy={samplingStrategy} onChange={changeSamplingStrategy} disabled={isProcessing} />
+
       {/* Upload Zone */}
       <div
         className="glass rounded-2xl p-12 border-2 border-dashed border-accent/60 glow-cyan cursor-pointer hover:border-accent/80 transition-colors"
@@ -322,14 +438,14 @@ export default function BatchProcessor() {
           ref={fileInputRef}
           type="file"
           multiple
-          accept="image/*,video/*"
+          accept="image/*,video/*,.json,.xml"
           onChange={(e) => handleFileSelect(e.target.files)}
           className="hidden"
         />
         <div className="text-center">
           <Upload className="w-12 h-12 mx-auto mb-4 text-accent/60" />
           <p className="text-lg font-semibold mb-2">Click to upload or drag and drop</p>
-          <p className="text-sm text-muted-foreground">PNG, JPG, MP4, WebM (up to 100MB)</p>
+          <p className="text-sm text-muted-foreground">PNG, JPG, MP4, WebM (up to 100MB), with optional COCO JSON or VOC XML ground truth</p>
         </div>
       </div>
 
@@ -337,33 +453,70 @@ export default function BatchProcessor() {
       {isProcessing && (
         <div className="glass p-6 rounded-2xl flex items-center gap-4 glow-cyan">
           <Loader2 className="w-6 h-6 text-accent animate-spin" />
-          <span className="text-sm font-medium">Processing files...</span>
+          <span className="text-sm font-medium">
+            {processingStatus
+              ? `Processing ${processingStatus.name}... ${Math.round(processingStatus.progress * 100)}%`
+              : 'Processing files...'}
+          </span>
         </div>
       )}
 
       {/* Results Grid */}
       {processedFiles.length > 0 && (
         <div>
-          <h3 className="text-sm font-semibold text-muted-foreground mb-4 uppercase tracking-wider">Processed Files ({processedFiles.length})</h3>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Processed Files ({processedFiles.length})</h3>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedIds(
+                  selectedIds.size === processedFiles.length ? new Set() : new Set(processedFiles.map(f => f.id))
+                )}
+              >
+                {selectedIds.size === processedFiles.length ? 'Deselect all' : 'Select all'}
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => deleteFiles(Array.from(selectedIds))}
+                disabled={selectedIds.size === 0}
+              >
+                <Trash2 />
+                Delete{selectedIds.size > 0 && ` (${selectedIds.size})`}
+              </Button>
+            </div>
+          </div>
+          <div className="mb-4">
+            <StorageUsage refreshKey={processedFiles} />
+          </div>
           <div className="grid grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
             {processedFiles.map(file => (
               <div
                 key={file.id}
                 className="glass rounded-xl overflow-hidden cursor-pointer hover:border-accent/50 transition-all group glow-cyan"
-                onClick={() => setCurrentFile(file)}
+                onClick={() => setCurrentFileId(file.id)}
               >
-                {file.imageData && (
+                {file.image && (
                   <div className="relative">
-                    <img
-                      src={file.imageData}
+                    <BlobImage
+                      blob={file.image}
                       alt={file.name}
                       className="w-full h-32 object-cover"
                     />
+                    <div className="absolute top-2 left-2 z-10" onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={selectedIds.has(file.id)}
+                        onCheckedChange={(checked) => toggleSelected(file.id, checked === true)}
+                        aria-label={`Select ${file.name}`}
+                        className="bg-background/80"
+                      />
+                    </div>
                     <div className="absolute inset-0 bg-background/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
                       <button
                         onClick={(e) => {
                           e.stopPropagation();
-                          deleteFile(file.id);
+                          deleteFiles([file.id]);
                         }}
                         className="p-2 bg-destructive rounded-lg hover:bg-destructive/90"
                       >
@@ -373,8 +526,13 @@ export default function BatchProcessor() {
                   </div>
                 )}
                 <div className="p-3">
-                  <p className="text-xs font-semibold text-accent mb-1">{file.detections.length} objects</p>
+                  <p className="text-xs font-semibold text-accent mb-1">{visibleDetections(file).length} objects</p>
                   <p className="text-xs text-muted-foreground truncate">{file.name}</p>
+                  {file.source && file.timeline && (
+                    <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+                      <VideoExportControl name={file.name} source={file.source} timeline={visibleTimeline(file)} />
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
@@ -396,45 +554,116 @@ export default function BatchProcessor() {
               <Download className="w-4 h-4 mr-2" />
               Export as JSON
             </Button>
+            <Button
+              onClick={() => setShowDatasetExport(true)}
+              className="flex-1 bg-accent text-background hover:bg-accent/90 font-semibold rounded-lg py-6"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export dataset
+            </Button>
           </div>
+          <DatasetExportDialog
+            open={showDatasetExport}
+            onOpenChange={setShowDatasetExport}
+            classes={Array.from(new Set(processedFiles.flatMap(file => visibleDetections(file).map(d => d.class)))).sort()}
+            onExport={exportDataset}
+          />
         </div>
       )}
 
+      {/* Ground-truth evaluation */}
+      {(processedFiles.length > 0 || groundTruth.size > 0) && (
+        <EvaluationPanel
+          groundTruth={groundTruth}
+          files={processedFiles}
+          onImport={files => importGroundTruth(Array.from(files))}
+          onClear={() => setGroundTruth(new Map())}
+        />
+      )}
+
       {/* Current File Details */}
       {currentFile && (
         <div className="glass rounded-2xl p-6 glow-cyan">
           <div className="flex items-center justify-between mb-4">
             <h4 className="text-lg font-semibold">{currentFile.name}</h4>
             <button
-              onClick={() => setCurrentFile(null)}
+              onClick={() => {
+                setCurrentFileId(null);
+                zoneDraft.cancel();
+              }}
               className="text-muted-foreground hover:text-foreground"
             >
               ✕
             </button>
           </div>
-          {currentFile.imageData && (
-            <img
-              src={currentFile.imageData}
-              alt={currentFile.name}
-              className="w-full rounded-lg mb-4 border border-border/30"
-            />
+          {currentFile.source && currentFile.timeline ? (
+            <div className="mb-4">
+              <VideoResultViewer source={currentFile.source} timeline={currentTimeline} />
+            </div>
+          ) : currentFile.image && (
+            <div className="relative mb-4">
+              <BlobImage
+                blob={currentFile.image}
+                alt={currentFile.name}
+                className="w-full rounded-lg border border-border/30"
+              />
+              {/* Zone drawing overlay, in normalized image coordinates */}
+              {zoneDraft.isDrawing && (
+                <svg
+                  viewBox="0 0 1 1"
+                  preserveAspectRatio="none"
+                  className="absolute inset-0 w-full h-full cursor-crosshair"
+                  onPointerDown={(e) => {
+                    const rect = e.currentTarget.getBoundingClientRect();
+                    zoneDraft.addPoint({
+                      x: (e.clientX - rect.left) / rect.width,
+                      y: (e.clientY - rect.top) / rect.height,
+                    });
+                  }}
+                >
+                  <polyline
+                    points={zoneDraft.points.map(point => `${point.x},${point.y}`).join(' ')}
+                    fill="none"
+                    stroke="#a78bfa"
+                    strokeWidth={2}
+                    strokeDasharray="6 4"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+              )}
+            </div>
           )}
           <div className="space-y-2">
             <p className="text-sm"><span className="text-muted-foreground">Type:</span> <span className="font-medium">{currentFile.type}</span></p>
-            <p className="text-sm"><span className="text-muted-foreground">Objects Detected:</span> <span className="font-medium text-accent">{currentFile.detections.length}</span></p>
+            <p className="text-sm"><span className="text-muted-foreground">Objects Detected:</span> <span className="font-medium text-accent">{visibleDetections(currentFile).length}</span></p>
             <p className="text-sm"><span className="text-muted-foreground">Timestamp:</span> <span className="font-medium">{currentFile.timestamp.toLocaleString()}</span></p>
+            {currentFile.lineCounts?.map(({ line, count }) => (
+              <p key={line.id} className="text-sm">
+                <span className="text-muted-foreground">{line.name}:</span>{' '}
+                <span className="font-medium text-accent">{count.in} in · {count.out} out</span>
+              </p>
+            ))}
           </div>
           <div className="mt-4">
             <h5 className="text-sm font-semibold mb-3">Detections</h5>
             <div className="space-y-2 max-h-48 overflow-y-auto">
-              {currentFile.detections.map((detection, idx) => (
+              {visibleDetections(currentFile).map((detection, idx) => (
                 <div key={idx} className="flex items-center justify-between p-2 bg-card/50 rounded border border-border/30">
-                  <span className="text-sm">{detection.class}</span>
+                  <span className="text-sm">{formatDetectionName(detection)}</span>
                   <span className="text-xs font-semibold text-accent">{(detection.score * 100).toFixed(1)}%</span>
                 </div>
               ))}
             </div>
           </div>
+          <div className="mt-4">
+            <ZonesPanel
+              zones={zones}
+              onZonesChange={onZonesChange}
+              draft={zoneDraft}
+              canDraw={currentFile.type === 'image'}
+              stats={computeZoneOccupancy(visibleDetections(currentFile), zones, currentFile.width, currentFile.height)}
+            />
+          </div>
         </div>
       )}
     </div>
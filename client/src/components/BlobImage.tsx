@@ -0,0 +1,16 @@
+import { useObjectUrl } from '@/hooks/useObjectUrl';
+import type { ComponentProps } from 'react';
+
+interface BlobImageProps extends Omit<ComponentProps<'img'>, 'src'> {
+  blob: Blob;
+}
+
+/**
+ * BlobImage Component
+ *
+ * An `<img>` showing a stored image Blob through an object URL.
+ */
+export default function BlobImage({ blob, alt, ...props }: BlobImageProps) {
+  const url = useObjectUrl(blob);
+  return url ? <img src={url} alt={alt} {...props} /> : null;
+}
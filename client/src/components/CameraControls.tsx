@@ -0,0 +1,103 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FRAME_RATE_PRESETS, RESOLUTION_PRESETS, type CameraSettings, type ResolutionPreset } from '@/lib/camera';
+import { FlipHorizontal, SwitchCamera } from 'lucide-react';
+
+interface CameraControlsProps {
+  settings: CameraSettings;
+  onSettingsChange: (settings: CameraSettings) => void;
+  cameras: MediaDeviceInfo[];
+  /** Device serving the running stream, if any */
+  activeDeviceId: string | null;
+  disabled?: boolean;
+}
+
+/**
+ * CameraControls Component
+ *
+ * Camera picker for the live view: device, front/back camera, resolution,
+ * frame rate and mirroring. Changes apply to a running stream straight away.
+ */
+export default function CameraControls({ settings, onSettingsChange, cameras, activeDeviceId, disabled }: CameraControlsProps) {
+  const selectedDevice = activeDeviceId ?? settings.deviceId ?? undefined;
+
+  return (
+    <div className="glass rounded-2xl p-3 glow-cyan flex flex-wrap items-center gap-2">
+      <Select
+        value={cameras.some(camera => camera.deviceId === selectedDevice) ? selectedDevice : undefined}
+        onValueChange={(deviceId) => onSettingsChange({ ...settings, deviceId })}
+        disabled={disabled || cameras.length === 0}
+      >
+        <SelectTrigger size="sm" className="flex-1 min-w-40 text-xs" aria-label="Camera">
+          <SelectValue placeholder={cameras.length === 0 ? 'No cameras found' : 'Default camera'} />
+        </SelectTrigger>
+        <SelectContent>
+          {cameras.map((camera, i) => (
+            <SelectItem key={camera.deviceId} value={camera.deviceId}>
+              {camera.label || `Camera ${i + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <button
+        onClick={() => onSettingsChange({
+          ...settings,
+          deviceId: null,
+          facingMode: settings.facingMode === 'user' ? 'environment' : 'user',
+        })}
+        disabled={disabled}
+        className="h-8 px-2.5 rounded-md border border-border/40 hover:bg-card/50 disabled:opacity-50 text-xs flex items-center gap-1.5 transition-colors"
+        title="Switch between the front and back camera"
+      >
+        <SwitchCamera className="w-4 h-4" />
+        {settings.deviceId ? 'Front/back' : settings.facingMode === 'user' ? 'Front' : 'Back'}
+      </button>
+
+      <Select
+        value={settings.resolution}
+        onValueChange={(resolution) => onSettingsChange({ ...settings, resolution: resolution as ResolutionPreset })}
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" className="text-xs" aria-label="Resolution">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {RESOLUTION_PRESETS.map(preset => (
+            <SelectItem key={preset.value} value={preset.value}>
+              {preset.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={String(settings.frameRate)}
+        onValueChange={(frameRate) => onSettingsChange({ ...settings, frameRate: Number(frameRate) })}
+        disabled={disabled}
+      >
+        <SelectTrigger size="sm" className="text-xs" aria-label="Frame rate">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FRAME_RATE_PRESETS.map(fps => (
+            <SelectItem key={fps} value={String(fps)}>
+              {fps} fps
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <button
+        onClick={() => onSettingsChange({ ...settings, mirror: !settings.mirror })}
+        className={`h-8 w-8 rounded-md border flex items-center justify-center transition-colors ${
+          settings.mirror ? 'border-accent bg-accent/20 text-accent' : 'border-border/40 text-muted-foreground hover:bg-card/50'
+        }`}
+        aria-label="Mirror"
+        aria-pressed={settings.mirror}
+        title="Mirror the view"
+      >
+        <FlipHorizontal className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
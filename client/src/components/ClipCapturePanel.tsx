@@ -0,0 +1,65 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { ClipSettings } from '@/lib/clipCapture';
+
+interface ClipCapturePanelProps {
+  settings: ClipSettings;
+  onSettingsChange: (settings: ClipSettings) => void;
+}
+
+/**
+ * ClipCapturePanel Component
+ *
+ * Settings for event-triggered clips: which classes trigger one when they
+ * appear, and how many seconds to keep before and after the event.
+ */
+export default function ClipCapturePanel({ settings, onSettingsChange }: ClipCapturePanelProps) {
+  return (
+    <div className="glass border border-accent/30 rounded-2xl overflow-hidden glow-cyan">
+      <div className="border-b border-border/30 px-4 py-3">
+        <h3 className="text-sm font-semibold text-accent">Event Clips</h3>
+      </div>
+      <div className="p-4 space-y-3">
+        <p className="text-xs text-muted-foreground">
+          Save a clip when one of these classes appears, or from an alert rule's clip action.
+        </p>
+        <Input
+          defaultValue={settings.classes.join(', ')}
+          onBlur={(e) => onSettingsChange({
+            ...settings,
+            classes: e.target.value.split(',').map(value => value.trim()).filter(Boolean),
+          })}
+          placeholder="Trigger classes, e.g. person, dog"
+          className="h-7 text-xs"
+          aria-label="Trigger classes"
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="clip-pre-roll" className="text-xs">Before (s)</Label>
+            <Input
+              id="clip-pre-roll"
+              type="number"
+              min={0}
+              max={30}
+              value={settings.preRollSec}
+              onChange={(e) => onSettingsChange({ ...settings, preRollSec: Math.min(Math.max(Number(e.target.value), 0), 30) })}
+              className="h-7 text-xs"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="clip-post-roll" className="text-xs">After (s)</Label>
+            <Input
+              id="clip-post-roll"
+              type="number"
+              min={0}
+              max={30}
+              value={settings.postRollSec}
+              onChange={(e) => onSettingsChange({ ...settings, postRollSec: Math.min(Math.max(Number(e.target.value), 0), 30) })}
+              className="h-7 text-xs"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
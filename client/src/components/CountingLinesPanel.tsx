@@ -0,0 +1,94 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { CountingLine } from '@/lib/lineCounter';
+import { PenLine, RotateCcw, Trash2 } from 'lucide-react';
+
+interface CountingLinesPanelProps {
+  lines: CountingLine[];
+  onLinesChange: (lines: CountingLine[]) => void;
+  isDrawing: boolean;
+  onDrawingChange: (isDrawing: boolean) => void;
+  canDraw: boolean;
+  onResetCounts: () => void;
+}
+
+/**
+ * CountingLinesPanel Component
+ *
+ * Editor for the counting lines drawn on the camera canvas: toggles draw
+ * mode, and lets each line be renamed, limited to some classes or removed.
+ */
+export default function CountingLinesPanel({
+  lines,
+  onLinesChange,
+  isDrawing,
+  onDrawingChange,
+  canDraw,
+  onResetCounts,
+}: CountingLinesPanelProps) {
+  const updateLine = (id: string, changes: Partial<CountingLine>) => {
+    onLinesChange(lines.map(line => (line.id === id ? { ...line, ...changes } : line)));
+  };
+
+  return (
+    <div className="glass border border-accent/30 rounded-2xl overflow-hidden glow-cyan">
+      <div className="border-b border-border/30 px-4 py-3 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-accent">Counting Lines</h3>
+        <div className="flex gap-1">
+          <Button
+            variant={isDrawing ? 'default' : 'ghost'}
+            size="icon-sm"
+            onClick={() => onDrawingChange(!isDrawing)}
+            disabled={!canDraw}
+            aria-label="Draw counting line"
+            title={canDraw ? 'Drag on the camera to draw a line' : 'Start detection to draw lines'}
+          >
+            <PenLine />
+          </Button>
+          <Button variant="ghost" size="icon-sm" onClick={onResetCounts} aria-label="Reset counts">
+            <RotateCcw />
+          </Button>
+        </div>
+      </div>
+      <div className="p-4 space-y-3">
+        {isDrawing && (
+          <p className="text-xs text-accent">Drag across the camera view to draw a line.</p>
+        )}
+        {lines.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Draw a line across a doorway or road to count objects passing it.
+          </p>
+        ) : (
+          lines.map(line => (
+            <div key={line.id} className="space-y-2 p-2 bg-card/50 rounded border border-border/30">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={line.name}
+                  onChange={(e) => updateLine(line.id, { name: e.target.value })}
+                  className="h-7 text-xs"
+                  aria-label="Line name"
+                />
+                <button
+                  onClick={() => onLinesChange(lines.filter(l => l.id !== line.id))}
+                  className="text-muted-foreground hover:text-destructive shrink-0"
+                  aria-label={`Remove ${line.name}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <Input
+                defaultValue={line.classes.join(', ')}
+                onBlur={(e) => updateLine(line.id, {
+                  classes: e.target.value.split(',').map(value => value.trim()).filter(Boolean),
+                })}
+                placeholder="Classes to count, e.g. person, car (all if empty)"
+                className="h-7 text-xs"
+                aria-label="Classes to count"
+              />
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { importCustomModel, parseLabels, type CustomModelSpec, type InputRange } from '@/lib/customModel';
+import { Loader2, Upload } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+const INPUT_RANGES: { value: InputRange; label: string }[] = [
+  { value: '0-255', label: '0 – 255 (raw pixels)' },
+  { value: '0-1', label: '0 – 1' },
+  { value: '-1-1', label: '-1 – 1' },
+];
+
+/**
+ * CustomModelDialog Component
+ *
+ * Collects a TF.js model (model.json plus weight shards), a labels file and
+ * the model's output signature, then stores it for reuse. Calls `onImported`
+ * with the stored model so the caller can switch to it.
+ */
+export default function CustomModelDialog({ onImported }: { onImported: (spec: CustomModelSpec) => void }) {
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const labelsInputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [modelFiles, setModelFiles] = useState<File[]>([]);
+  const [labelsFile, setLabelsFile] = useState<File | null>(null);
+  const [name, setName] = useState('');
+  const [boxesOutput, setBoxesOutput] = useState('detection_boxes');
+  const [scoresOutput, setScoresOutput] = useState('detection_scores');
+  const [classesOutput, setClassesOutput] = useState('detection_classes');
+  const [inputWidth, setInputWidth] = useState(320);
+  const [inputHeight, setInputHeight] = useState(320);
+  const [inputRange, setInputRange] = useState<InputRange>('0-255');
+
+  const canImport = modelFiles.length > 0 && labelsFile !== null && boxesOutput && scoresOutput;
+
+  const handleImport = async () => {
+    if (!labelsFile) return;
+
+    setIsImporting(true);
+    try {
+      const labels = parseLabels(await labelsFile.text());
+      const spec = await importCustomModel(modelFiles, {
+        name: name.trim() || modelFiles.find(file => file.name.endsWith('.json'))?.name || 'Custom model',
+        labels,
+        inputSize: { width: inputWidth, height: inputHeight },
+        inputRange,
+        outputs: {
+          boxes: boxesOutput.trim(),
+          scores: scoresOutput.trim(),
+          classes: classesOutput.trim() || undefined,
+        },
+      });
+      toast.success(`Imported ${spec.name} (${labels.length} classes)`);
+      onImported(spec);
+      setOpen(false);
+      setModelFiles([]);
+      setLabelsFile(null);
+      setName('');
+    } catch (error) {
+      console.error('Error importing custom model:', error);
+      toast.error(error instanceof Error ? error.message : 'Unable to import model');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full">
+          <Upload className="w-4 h-4" />
+          Load custom model
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Load custom model</DialogTitle>
+          <DialogDescription>
+            Select a TF.js graph or layers model (model.json and its .bin shards) and a labels file.
+            Boxes must be normalized [ymin, xmin, ymax, xmax].
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Files */}
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => modelInputRef.current?.click()}
+              className="glass border border-dashed border-accent/60 rounded-lg p-4 text-xs text-center hover:border-accent transition-colors"
+            >
+              {modelFiles.length > 0 ? `${modelFiles.length} model files` : 'model.json + .bin files'}
+            </button>
+            <button
+              onClick={() => labelsInputRef.current?.click()}
+              className="glass border border-dashed border-accent/60 rounded-lg p-4 text-xs text-center hover:border-accent transition-colors"
+            >
+              {labelsFile ? labelsFile.name : 'Labels (.txt or .json)'}
+            </button>
+            <input
+              ref={modelInputRef}
+              type="file"
+              multiple
+              accept=".json,.bin"
+              onChange={(e) => setModelFiles(Array.from(e.target.files ?? []))}
+              className="hidden"
+            />
+            <input
+              ref={labelsInputRef}
+              type="file"
+              accept=".txt,.json"
+              onChange={(e) => setLabelsFile(e.target.files?.[0] ?? null)}
+              className="hidden"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="custom-model-name">Name</Label>
+            <Input id="custom-model-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="My detector" />
+          </div>
+
+          {/* Output signature */}
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="custom-model-boxes">Boxes tensor</Label>
+              <Input id="custom-model-boxes" value={boxesOutput} onChange={(e) => setBoxesOutput(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="custom-model-scores">Scores tensor</Label>
+              <Input id="custom-model-scores" value={scoresOutput} onChange={(e) => setScoresOutput(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="custom-model-classes">Classes tensor</Label>
+              <Input
+                id="custom-model-classes"
+                value={classesOutput}
+                onChange={(e) => setClassesOutput(e.target.value)}
+                placeholder="per-class scores"
+              />
+            </div>
+          </div>
+
+          {/* Input */}
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="custom-model-width">Input width</Label>
+              <Input
+                id="custom-model-width"
+                type="number"
+                min={1}
+                value={inputWidth}
+                onChange={(e) => setInputWidth(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="custom-model-height">Input height</Label>
+              <Input
+                id="custom-model-height"
+                type="number"
+                min={1}
+                value={inputHeight}
+                onChange={(e) => setInputHeight(Number(e.target.value))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Input range</Label>
+              <Select value={inputRange} onValueChange={(value) => setInputRange(value as InputRange)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INPUT_RANGES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleImport}
+            disabled={!canImport || isImporting}
+            className="bg-accent text-background hover:bg-accent/90"
+          >
+            {isImporting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
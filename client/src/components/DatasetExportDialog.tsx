@@ -0,0 +1,148 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import {
+  DATASET_FORMATS,
+  loadDatasetExportOptions,
+  saveDatasetExportOptions,
+  type DatasetExportOptions,
+  type DatasetFormat,
+} from '@/lib/datasetExport';
+import { Download, Loader2 } from 'lucide-react';
+import { useState } from 'react';
+
+interface DatasetExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Classes present in the results, offered for filtering */
+  classes: string[];
+  onExport: (options: DatasetExportOptions) => Promise<void>;
+}
+
+/**
+ * DatasetExportDialog Component
+ *
+ * Picks a label format (COCO, Pascal VOC or YOLO), the classes to keep and a
+ * minimum confidence, then exports the images and labels as a ZIP.
+ */
+export default function DatasetExportDialog({ open, onOpenChange, classes, onExport }: DatasetExportDialogProps) {
+  const [options, setOptions] = useState<DatasetExportOptions>(loadDatasetExportOptions);
+  const [isExporting, setIsExporting] = useState(false);
+  // Remembered classes that are not in these results are ignored
+  const selectedClasses = options.classes.filter(cls => classes.includes(cls));
+  const format = DATASET_FORMATS.find(option => option.value === options.format)!;
+
+  const toggleClass = (cls: string) => {
+    setOptions({
+      ...options,
+      classes: selectedClasses.includes(cls) ? selectedClasses.filter(c => c !== cls) : [...selectedClasses, cls],
+    });
+  };
+
+  const handleExport = async () => {
+    const chosen = { ...options, classes: selectedClasses };
+    saveDatasetExportOptions(chosen);
+    setIsExporting(true);
+    try {
+      await onExport(chosen);
+      onOpenChange(false);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Export dataset</DialogTitle>
+          <DialogDescription>Unannotated images with their labels, as a ZIP.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select
+              value={options.format}
+              onValueChange={(value) => setOptions({ ...options, format: value as DatasetFormat })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DATASET_FORMATS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">{format.description}</p>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Minimum confidence</Label>
+              <span className="text-xs text-muted-foreground tabular-nums">{Math.round(options.minScore * 100)}%</span>
+            </div>
+            <Slider
+              value={[options.minScore * 100]}
+              onValueChange={([value]) => setOptions({ ...options, minScore: value / 100 })}
+              min={0}
+              max={100}
+              step={1}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Classes</Label>
+            {classes.length === 0 ? (
+              <p className="text-xs text-muted-foreground">No detections to export.</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap gap-1.5">
+                  {classes.map(cls => (
+                    <button
+                      key={cls}
+                      onClick={() => toggleClass(cls)}
+                      className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+                        selectedClasses.includes(cls)
+                          ? 'border-accent bg-accent/20 text-accent'
+                          : 'border-border/40 text-muted-foreground hover:text-foreground'
+                      }`}
+                    >
+                      {cls}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {selectedClasses.length === 0 ? 'All classes are exported.' : `${selectedClasses.length} of ${classes.length} classes.`}
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-accent text-background hover:bg-accent/90"
+          >
+            {isExporting ? <Loader2 className="animate-spin" /> : <Download />}
+            Export {format.label}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
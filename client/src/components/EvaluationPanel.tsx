@@ -0,0 +1,293 @@
+import { Button } from '@/components/ui/button';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import { downloadBlob, downloadJSON } from '@/lib/download';
+import { BACKGROUND, EVALUATION_DETECT_OPTIONS, evaluateDetections, evaluationCsv, type ClassEvaluation, type ConfusionMatrix } from '@/lib/evaluation';
+import { groundTruthKey, type GroundTruth } from '@/lib/groundTruth';
+import type { ProcessedFile } from '@/lib/storage';
+import { Download, FileUp, Target, X } from 'lucide-react';
+import { useMemo, useRef, useState } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+
+interface EvaluationPanelProps {
+  groundTruth: GroundTruth;
+  files: ProcessedFile[];
+  onImport: (files: FileList) => void;
+  onClear: () => void;
+}
+
+// Curves plotted before the user picks classes
+const DEFAULT_CURVES = 5;
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+// Distinct hues for however many classes there are
+const curveColor = (index: number) => `hsl(${(195 + index * 137.5) % 360} 80% 60%)`;
+
+function PrCurves({ classes }: { classes: ClassEvaluation[] }) {
+  const [shown, setShown] = useState<string[]>(() =>
+    [...classes].sort((a, b) => b.groundTruth - a.groundTruth).slice(0, DEFAULT_CURVES).map(c => c.class)
+  );
+  const plotted = classes.filter(c => shown.includes(c.class));
+  // Class names can hold spaces, so chart keys are positional
+  const config: ChartConfig = Object.fromEntries(classes.map((c, i) => [`c${i}`, { label: c.class, color: curveColor(i) }]));
+
+  const toggle = (cls: string) => {
+    setShown(shown.includes(cls) ? shown.filter(c => c !== cls) : [...shown, cls]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        {classes.map((c, i) => (
+          <button
+            key={c.class}
+            onClick={() => toggle(c.class)}
+            className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+              shown.includes(c.class) ? 'border-accent bg-accent/20 text-foreground' : 'border-border/40 text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            <span className="inline-block w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: curveColor(i) }} />
+            {c.class}
+          </button>
+        ))}
+      </div>
+      <ChartContainer config={config} className="aspect-[4/3] w-full">
+        <LineChart margin={{ top: 8, right: 16, bottom: 16, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            type="number"
+            dataKey="recall"
+            domain={[0, 1]}
+            ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]}
+            label={{ value: 'Recall', position: 'insideBottom', offset: -8 }}
+          />
+          <YAxis type="number" domain={[0, 1]} ticks={[0, 0.2, 0.4, 0.6, 0.8, 1]} width={36} />
+          <ChartTooltip
+            formatter={(value: number, name: string) => [`${(value * 100).toFixed(1)}%`, config[name]?.label ?? name]}
+            labelFormatter={(recall: number) => `Recall ${(recall * 100).toFixed(0)}%`}
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {plotted.map(c => {
+            const key = `c${classes.indexOf(c)}`;
+            return (
+              <Line
+                key={key}
+                data={c.curve}
+                dataKey="precision"
+                name={key}
+                type="stepAfter"
+                stroke={`var(--color-${key})`}
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            );
+          })}
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+function ConfusionMatrixTable({ matrix }: { matrix: ConfusionMatrix }) {
+  const max = Math.max(1, ...matrix.counts.flat());
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-collapse">
+        <thead>
+          <tr>
+            <th className="p-1 text-left text-muted-foreground font-normal">truth ↓ / predicted →</th>
+            {matrix.labels.map(label => (
+              <th key={label} className="p-1 font-medium text-muted-foreground [writing-mode:vertical-rl] rotate-180 text-left">
+                {label}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {matrix.counts.map((row, i) => (
+            <tr key={matrix.labels[i]}>
+              <th className="p-1 pr-2 text-left font-medium text-muted-foreground whitespace-nowrap">{matrix.labels[i]}</th>
+              {row.map((count, j) => (
+                <td
+                  key={j}
+                  title={`${matrix.labels[i]} → ${matrix.labels[j]}: ${count}`}
+                  className={`w-8 h-8 text-center tabular-nums border border-border/20 ${i === j ? 'font-semibold' : ''}`}
+                  style={{
+                    backgroundColor: count > 0
+                      ? `color-mix(in oklch, ${i === j && matrix.labels[i] !== BACKGROUND ? 'var(--accent)' : 'var(--destructive)'} ${Math.round(15 + (count / max) * 65)}%, transparent)`
+                      : undefined,
+                  }}
+                >
+                  {count || ''}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * EvaluationPanel Component
+ *
+ * Scores batch image results against imported COCO or Pascal VOC ground
+ * truth: mAP, per-class precision/recall/AP, a confusion matrix and PR curves,
+ * with the report downloadable as JSON or CSV.
+ */
+export default function EvaluationPanel({ groundTruth, files, onImport, onClear }: EvaluationPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Raw detections are scored, as zones are a view filter rather than part of the model's output,
+  // and down to the evaluation threshold where the result kept them
+  const matched = useMemo(() => files.flatMap(file => {
+    const boxes = file.type === 'image' ? groundTruth.get(groundTruthKey(file.name)) : undefined;
+    return boxes ? [{ file, groundTruth: boxes }] : [];
+  }), [files, groundTruth]);
+  const images = useMemo(() => matched.map(({ file, groundTruth: boxes }) => ({
+    name: file.name,
+    predictions: file.candidates ?? file.detections,
+    groundTruth: boxes,
+  })), [matched]);
+  const thresholded = matched.filter(({ file }) => !file.candidates).length;
+  const report = useMemo(() => (images.length > 0 ? evaluateDetections(images) : null), [images]);
+  const unmatched = files.filter(file => file.type === 'image').length - images.length;
+
+  const exportJSON = () => {
+    if (!report) return;
+    downloadJSON({ timestamp: new Date().toISOString(), imageNames: images.map(image => image.name), ...report }, `evaluation-${Date.now()}.json`);
+  };
+
+  const exportCSV = () => {
+    if (!report) return;
+    downloadBlob(new Blob([evaluationCsv(report)], { type: 'text/csv' }), `evaluation-${Date.now()}.csv`);
+  };
+
+  return (
+    <div className="glass rounded-2xl p-6 glow-cyan space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Target className="w-5 h-5 text-accent" />
+          <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Evaluation</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            accept=".json,.xml"
+            onChange={(e) => {
+              if (e.target.files) onImport(e.target.files);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+          <Button variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+            <FileUp />
+            Load annotations
+          </Button>
+          {groundTruth.size > 0 && (
+            <Button variant="ghost" size="sm" onClick={onClear}>
+              <X />
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {groundTruth.size === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Load COCO JSON or Pascal VOC XML annotations to score the processed images. Images are matched by file name.
+        </p>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Ground truth for {groundTruth.size} image{groundTruth.size === 1 ? '' : 's'}; {images.length} processed image{images.length === 1 ? '' : 's'} matched
+          {unmatched > 0 && `, ${unmatched} without annotations`}.
+          {' '}Detections down to {EVALUATION_DETECT_OPTIONS.minScore * 100}% confidence are scored.
+        </p>
+      )}
+      {thresholded > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {thresholded} image{thresholded === 1 ? ' was' : 's were'} processed before low-confidence detections were kept,
+          so only detections above the detection threshold count and recall and AP come out low. Process them again for full scores.
+        </p>
+      )}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-card/50 rounded-lg border border-border/30 p-3">
+              <p className="text-xs text-muted-foreground">mAP@0.5</p>
+              <p className="text-2xl font-semibold text-accent tabular-nums">{formatPercent(report.map50)}</p>
+            </div>
+            <div className="bg-card/50 rounded-lg border border-border/30 p-3">
+              <p className="text-xs text-muted-foreground">mAP@[.5:.95]</p>
+              <p className="text-2xl font-semibold text-accent tabular-nums">{formatPercent(report.map)}</p>
+            </div>
+            <div className="bg-card/50 rounded-lg border border-border/30 p-3">
+              <p className="text-xs text-muted-foreground">Images</p>
+              <p className="text-2xl font-semibold tabular-nums">{report.images}</p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-muted-foreground border-b border-border/30">
+                  <th className="py-2 text-left font-medium">Class</th>
+                  <th className="py-2 text-right font-medium">GT</th>
+                  <th className="py-2 text-right font-medium">Pred</th>
+                  <th className="py-2 text-right font-medium">Precision</th>
+                  <th className="py-2 text-right font-medium">Recall</th>
+                  <th className="py-2 text-right font-medium">AP50</th>
+                  <th className="py-2 text-right font-medium">AP50-95</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.classes.map(c => (
+                  <tr key={c.class} className="border-b border-border/10 tabular-nums">
+                    <td className="py-1.5">{c.class}</td>
+                    <td className="py-1.5 text-right">{c.groundTruth}</td>
+                    <td className="py-1.5 text-right">{c.predictions}</td>
+                    <td className="py-1.5 text-right">{formatPercent(c.predictions > 0 ? c.precision : null)}</td>
+                    <td className="py-1.5 text-right">{formatPercent(c.groundTruth > 0 ? c.recall : null)}</td>
+                    <td className="py-1.5 text-right text-accent">{formatPercent(c.ap50)}</td>
+                    <td className="py-1.5 text-right">{formatPercent(c.ap)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid lg:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-semibold mb-3">Precision / recall at IoU 0.5</h4>
+              <PrCurves
+                key={report.classes.map(c => c.class).join('\n')}
+                classes={report.classes.filter(c => c.groundTruth > 0)}
+              />
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-3">Confusion matrix at IoU 0.5</h4>
+              <ConfusionMatrixTable matrix={report.confusion} />
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <Button onClick={exportJSON} variant="outline" className="flex-1">
+              <Download />
+              Report JSON
+            </Button>
+            <Button onClick={exportCSV} variant="outline" className="flex-1">
+              <Download />
+              Report CSV
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useObjectUrl } from '@/hooks/useObjectUrl';
+import { loadImage, renderAnnotatedImage } from '@/lib/annotate';
+import { formatDetectionName, type Detection } from '@/lib/detection';
+import { HISTORY_SOURCES, type HistoryItem } from '@/lib/history';
+import { useEffect, useState } from 'react';
+import BlobImage from './BlobImage';
+import VideoResultViewer from './VideoResultViewer';
+
+interface HistoryDetailProps {
+  item: HistoryItem;
+  /** The item's detections that pass the current filters */
+  detections: Detection[];
+  onClose: () => void;
+}
+
+// Redraws a batch image from its unannotated source with only the given boxes
+function FilteredImage({ source, detections, alt }: { source: Blob; detections: Detection[]; alt: string }) {
+  const [rendered, setRendered] = useState<Blob | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(source)
+      .then(img => renderAnnotatedImage(img, detections))
+      .then(blob => {
+        if (!cancelled) setRendered(blob);
+      })
+      .catch(error => console.error('Error rendering image:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [source, detections]);
+
+  return rendered ? <BlobImage blob={rendered} alt={alt} className="w-full rounded-lg border border-border/30" /> : null;
+}
+
+function RawFeedLink({ blob, name }: { blob: Blob; name: string }) {
+  const url = useObjectUrl(blob);
+  return url ? (
+    <a href={url} download={`${name}-raw.webm`} className="text-xs text-accent hover:underline">
+      Download raw feed
+    </a>
+  ) : null;
+}
+
+function ItemMedia({ item, detections }: { item: HistoryItem; detections: Detection[] }) {
+  switch (item.source) {
+    case 'snapshot':
+      return <BlobImage blob={item.record.image} alt={item.name} className="w-full rounded-lg border border-border/30" />;
+    case 'batch':
+      if (item.record.source && item.record.timeline) {
+        return <VideoResultViewer source={item.record.source} timeline={item.record.timeline} />;
+      }
+      if (item.record.sourceImage) {
+        return <FilteredImage source={item.record.sourceImage} detections={detections} alt={item.name} />;
+      }
+      return item.record.image
+        ? <BlobImage blob={item.record.image} alt={item.name} className="w-full rounded-lg border border-border/30" />
+        : null;
+    case 'recording':
+      return (
+        <div className="space-y-2">
+          <VideoResultViewer
+            source={item.record.annotated}
+            timeline={item.record.frames}
+            overlay={false}
+            fallbackDurationMs={item.record.durationMs}
+          />
+          {item.record.raw && <RawFeedLink blob={item.record.raw} name={item.name} />}
+        </div>
+      );
+  }
+}
+
+/**
+ * HistoryDetail Component
+ *
+ * Full view of one stored item: its image or video with boxes, where it
+ * came from, and the detections that match the history filters.
+ */
+export default function HistoryDetail({ item, detections, onClose }: HistoryDetailProps) {
+  const sourceLabel = HISTORY_SOURCES.find(source => source.value === item.source)!.label;
+
+  return (
+    <div className="glass rounded-2xl p-6 glow-cyan">
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <h4 className="text-lg font-semibold truncate">{item.name}</h4>
+        <button onClick={onClose} className="text-muted-foreground hover:text-foreground">
+          ✕
+        </button>
+      </div>
+      <div className="mb-4">
+        <ItemMedia item={item} detections={detections} />
+      </div>
+      <div className="space-y-2">
+        <p className="text-sm"><span className="text-muted-foreground">Source:</span> <span className="font-medium">{sourceLabel}</span></p>
+        <p className="text-sm"><span className="text-muted-foreground">Time:</span> <span className="font-medium">{item.timestamp.toLocaleString()}</span></p>
+        <p className="text-sm">
+          <span className="text-muted-foreground">Matching objects:</span>{' '}
+          <span className="font-medium text-accent">{detections.length} of {item.detections.length}</span>
+        </p>
+      </div>
+      <div className="mt-4">
+        <h5 className="text-sm font-semibold mb-3">Detections</h5>
+        <div className="space-y-2 max-h-48 overflow-y-auto">
+          {detections.map((detection, idx) => (
+            <div key={idx} className="flex items-center justify-between p-2 bg-card/50 rounded border border-border/30">
+              <span className="text-sm">{formatDetectionName(detection)}</span>
+              <span className="text-xs font-semibold text-accent">{(detection.score * 100).toFixed(1)}%</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { Button } from '@/components/ui/button';
+import { useDetectionEngine } from '@/contexts/DetectionEngineContext';
+import { COCO_SSD_BASES } from '@/lib/cocoSsdModel';
+import type { CustomModelSpec } from '@/lib/customModel';
+import { formatBytes, listCachedModels, removeCachedModel, type CachedModel } from '@/lib/modelCache';
+import { Database, Trash2 } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+interface ModelCacheManagerProps {
+  customModels: CustomModelSpec[];
+  onRemoveCustomModel: (spec: CustomModelSpec) => Promise<void>;
+}
+
+/**
+ * ModelCacheManager Component
+ *
+ * Lists the models stored in IndexedDB with their sizes. Downloaded COCO-SSD
+ * weights can be cleared and will be fetched again on next use; custom models
+ * are removed entirely since they only exist in the cache.
+ */
+export default function ModelCacheManager({ customModels, onRemoveCustomModel }: ModelCacheManagerProps) {
+  const { status } = useDetectionEngine();
+  const [cachedModels, setCachedModels] = useState<CachedModel[]>([]);
+
+  const refresh = () => {
+    listCachedModels()
+      .then(setCachedModels)
+      .catch((error) => console.error('Error listing cached models:', error));
+  };
+
+  // Refresh after every model load, since a cache miss adds an entry
+  useEffect(refresh, [customModels, status.lastLoad]);
+
+  const customModelFor = (model: CachedModel) =>
+    customModels.find(spec => model.key === `custom-${spec.id}`);
+
+  const describe = (model: CachedModel) => {
+    const custom = customModelFor(model);
+    if (custom) {
+      return custom.name;
+    }
+    const base = COCO_SSD_BASES.find(option => model.key.startsWith(`coco-ssd-${option.value}-`));
+    return base ? `COCO-SSD · ${base.label}` : model.key;
+  };
+
+  const removeModel = async (model: CachedModel) => {
+    try {
+      const custom = customModelFor(model);
+      if (custom) {
+        await onRemoveCustomModel(custom);
+      } else {
+        await removeCachedModel(model.url);
+      }
+    } catch (error) {
+      console.error('Error removing cached model:', error);
+      toast.error('Unable to remove cached model');
+    }
+    refresh();
+  };
+
+  const clearDownloads = async () => {
+    await Promise.all(
+      cachedModels.filter(model => !customModelFor(model)).map(model => removeCachedModel(model.url))
+    );
+    refresh();
+  };
+
+  const totalBytes = cachedModels.reduce((sum, model) => sum + model.sizeBytes, 0);
+
+  return (
+    <div className="space-y-2">
+      {cachedModels.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No models stored on this device yet.</p>
+      ) : (
+        <>
+          {cachedModels.map(model => (
+            <div
+              key={model.url}
+              className="flex items-center justify-between gap-2 p-2 bg-card/50 rounded border border-border/30 text-xs"
+            >
+              <div className="min-w-0">
+                <p className="truncate">{describe(model)}</p>
+                <p className="text-muted-foreground">
+                  {formatBytes(model.sizeBytes)} · saved {model.dateSaved.toLocaleDateString()}
+                </p>
+              </div>
+              <button
+                onClick={() => removeModel(model)}
+                className="text-muted-foreground hover:text-destructive shrink-0"
+                aria-label={`Remove ${describe(model)}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground flex items-center gap-1">
+              <Database className="w-3.5 h-3.5" />
+              {formatBytes(totalBytes)} total
+            </span>
+            <Button variant="outline" size="sm" onClick={clearDownloads}>
+              Clear downloaded models
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
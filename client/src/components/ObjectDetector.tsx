@@ -1,22 +1,81 @@
-import * as tf from '@tensorflow/tfjs';
-import * as cocoSsd from '@tensorflow-models/coco-ssd';
 import { Button } from '@/components/ui/button';
-import { Camera, StopCircle, Loader2, Download, Image as ImageIcon, Trash2, Upload, Video, Eye, Percent } from 'lucide-react';
+import { Camera, StopCircle, Loader2, Download, Image as ImageIcon, Trash2, Upload, Video, Eye, Percent, WifiOff, ArrowRightLeft, Circle, Square, History as HistoryIcon, Gauge, Activity } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
 import BatchProcessor from './BatchProcessor';
+import CameraControls from './CameraControls';
+import ClipCapturePanel from './ClipCapturePanel';
+import DatasetExportDialog from './DatasetExportDialog';
+import CountingLinesPanel from './CountingLinesPanel';
+import PerfHud from './PerfHud';
+import SchedulerPanel from './SchedulerPanel';
+import RecordingsGallery from './RecordingsGallery';
+import SnapshotsGallery from './SnapshotsGallery';
+import RulesPanel from './RulesPanel';
+import ZonesPanel from './ZonesPanel';
+import SettingsPanel from './SettingsPanel';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useZoneDraft } from '@/hooks/useZoneDraft';
+import { useDetectionEngine } from '@/contexts/DetectionEngineContext';
+import { drawDetections, formatDetectionName, type Detection } from '@/lib/detection';
+import { runAlertActions } from '@/lib/alertActions';
+import {
+  drawVideoFrame,
+  listCameras,
+  loadCameraSettings,
+  mirrorDetections,
+  openCamera,
+  saveCameraSettings,
+  streamDeviceId,
+  type CameraSettings,
+} from '@/lib/camera';
+import { loadAlertRules, RuleEngine, saveAlertRules, type AlertEvent, type AlertRule } from '@/lib/alertRules';
+import { ClipCapture, loadClipSettings, saveClipSettings, type ClipSettings } from '@/lib/clipCapture';
+import { snapshotImages } from '@/lib/dataset';
+import { createDatasetZip, type DatasetExportOptions } from '@/lib/datasetExport';
+import { downloadBlob } from '@/lib/download';
+import {
+  describeSchedule,
+  FrameScheduler,
+  loadSchedulerSettings,
+  requestFrame,
+  saveSchedulerSettings,
+  scaleDetections,
+  type SchedulerSettings,
+  type SchedulerState,
+} from '@/lib/frameScheduler';
+import { canvasPointFromEvent, type Point } from '@/lib/geometry';
+import { loadShowPerfHud, PerfMonitor, saveShowPerfHud } from '@/lib/perfMonitor';
+import { SessionRecorder, type Recording } from '@/lib/recordings';
+import { byNewest, canvasToBlob, captureVideoFrame, recordingStore, reportStorageError, snapshotStore, type Snapshot } from '@/lib/storage';
+import {
+  createCountingLine,
+  drawCountingLines,
+  LineCounter,
+  loadCountingLines,
+  saveCountingLines,
+  type CountingLine,
+  type LineCount,
+} from '@/lib/lineCounter';
+import { MultiObjectTracker } from '@/lib/tracker';
+import { supportsCanvasRecording } from '@/lib/videoExport';
+import { watchVideoFrames } from '@/lib/videoSampling';
+import {
+  createZone,
+  drawZoneDraft,
+  drawZones,
+  filterDetectionsByZones,
+  loadZones,
+  saveZones,
+  ZoneMonitor,
+  type Zone,
+  type ZoneStats,
+} from '@/lib/zones';
 import { useState, useRef, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Link } from 'wouter';
 
-interface Detection {
-  class: string;
-  score: number;
-  bbox: [number, number, number, number];
-}
-
-interface Snapshot {
-  id: string;
-  timestamp: Date;
-  imageData: string;
-  detections: Detection[];
-}
+// Older alert events are dropped from the log
+const MAX_ALERT_EVENTS = 100;
 
 /**
  * ObjectDetector Component
@@ -32,56 +91,226 @@ interface Snapshot {
 export default function ObjectDetector() {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const { status: engineStatus, isReady, detect } = useDetectionEngine();
+  const isOnline = useOnlineStatus();
   const [isDetecting, setIsDetecting] = useState(false);
   const [detections, setDetections] = useState<Detection[]>([]);
-  const [modelStatus, setModelStatus] = useState('Initializing...');
   const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
   const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showDatasetExport, setShowDatasetExport] = useState(false);
   const [activeTab, setActiveTab] = useState<'webcam' | 'batch'>('webcam');
-  const modelRef = useRef<cocoSsd.ObjectDetection | null>(null);
-  const animationFrameRef = useRef<number | null>(null);
+  // Cancels the frame the live loop has scheduled, if any
+  const cancelFrameRef = useRef<(() => void) | null>(null);
+  const frameInFlightRef = useRef(false);
+  const [schedulerSettings, setSchedulerSettings] = useState<SchedulerSettings>(loadSchedulerSettings);
+  const [scheduleState, setScheduleState] = useState<SchedulerState>({ paused: false, scale: 1 });
+  const schedulerRef = useRef(new FrameScheduler(schedulerSettings, setScheduleState));
+  const trackerRef = useRef(new MultiObjectTracker());
+  const [countingLines, setCountingLines] = useState<CountingLine[]>(loadCountingLines);
+  const [lineCounts, setLineCounts] = useState<LineCount[]>([]);
+  const [isDrawingLine, setIsDrawingLine] = useState(false);
+  const countingLinesRef = useRef(countingLines);
+  const lineCounterRef = useRef(new LineCounter(countingLines));
+  // Line being dragged out on the canvas, drawn by the detection loop
+  const lineDraftRef = useRef<{ start: Point; end: Point } | null>(null);
+  const [zones, setZones] = useState<Zone[]>(loadZones);
+  const [zoneStats, setZoneStats] = useState<ZoneStats[]>([]);
+  const zonesRef = useRef(zones);
+  const zoneMonitorRef = useRef(new ZoneMonitor(zones));
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const [alertEvents, setAlertEvents] = useState<AlertEvent[]>([]);
+  const alertRulesRef = useRef(alertRules);
+  const ruleEngineRef = useRef(new RuleEngine(alertRules));
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [includeRawFeed, setIncludeRawFeed] = useState(false);
+  const [recordings, setRecordings] = useState<Recording[]>([]);
+  const [showRecordings, setShowRecordings] = useState(false);
+  const [clipSettings, setClipSettings] = useState<ClipSettings>(loadClipSettings);
+  const clipCaptureRef = useRef(new ClipCapture(clipSettings, clip => {
+    addRecording(clip);
+    toast.success(`${clip.name} saved`);
+  }));
+  const [showPerfHud, setShowPerfHud] = useState(loadShowPerfHud);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [activeDeviceId, setActiveDeviceId] = useState<string | null>(null);
+  const cameraSettingsRef = useRef(cameraSettings);
+  const activeDeviceIdRef = useRef<string | null>(null);
+  // Held apart from the video element, which is gone by the time the page unmounts
+  const streamRef = useRef<MediaStream | null>(null);
+  const perfMonitorRef = useRef(new PerfMonitor());
+  const stopFrameWatchRef = useRef<(() => void) | null>(null);
+  const zoneDraft = useZoneDraft(points => setZones(current => [...current, createZone(points, current.length)]));
+  // Read by the detection loop, which outlives the render that started it
+  const isDetectingRef = useRef(false);
+  const isLoading = engineStatus.state === 'loading' || engineStatus.state === 'idle';
+  const modelStatus = engineStatus.message;
+  const benchmarkMs = engineStatus.backend?.benchmarks
+    ?.find(result => result.backend === engineStatus.backend?.backend)
+    ?.msPerFrame ?? undefined;
+  const statusColor = engineStatus.state === 'error'
+    ? { dot: 'bg-destructive', text: 'text-destructive' }
+    : isLoading
+      ? { dot: 'bg-yellow-500 animate-pulse', text: 'text-yellow-500' }
+      : { dot: 'bg-green-500', text: 'text-green-500' };
+
+  // Restore snapshots and recordings from earlier sessions
+  useEffect(() => {
+    snapshotStore.getAll()
+      .then(stored => setSnapshots(current => [...current, ...stored.sort(byNewest(s => s.timestamp))]))
+      .catch(error => console.error('Error loading snapshots:', error));
+    recordingStore.getAll()
+      .then(stored => setRecordings(current => [...current, ...stored.sort(byNewest(r => r.createdAt))]))
+      .catch(error => console.error('Error loading recordings:', error));
+  }, []);
 
-  // Initialize TensorFlow.js and COCO-SSD model
+  // Stop the detection loop on unmount, saving any recording or clip in progress and
+  // releasing the camera, as other pages (the benchmark) may need the device to themselves
   useEffect(() => {
-    const initializeModel = async () => {
-      try {
-        setModelStatus('Loading TensorFlow.js...');
-        await tf.ready();
-        
-        setModelStatus('Loading COCO-SSD model...');
-        const model = await cocoSsd.load();
-        modelRef.current = model;
-        
-        setModelStatus('Ready');
-        setIsLoading(false);
-      } catch (error) {
-        console.error('Error loading model:', error);
-        setModelStatus('Error loading model');
-        setIsLoading(false);
+    return () => {
+      isDetectingRef.current = false;
+      stopFrameWatchRef.current?.();
+      cancelFrameRef.current?.();
+      stopRecording();
+      clipCaptureRef.current.stop();
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    };
+  }, []);
+
+  // Pause while the tab is hidden, or keep going on timers when pausing is off
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      const scheduler = schedulerRef.current;
+      scheduler.setHidden(document.hidden);
+      if (!isDetectingRef.current || scheduler.getState().paused) return;
+      if (cancelFrameRef.current) {
+        // Move the waiting frame between animation frames and timers
+        cancelFrameRef.current();
+        scheduleNextFrame();
+      } else if (!frameInFlightRef.current) {
+        // The loop stopped while paused
+        scheduleNextFrame();
       }
     };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
 
-    initializeModel();
+  // Keep the camera list current as devices are plugged in and out, and follow
+  // the live stream: off an unplugged camera, back onto the preferred one
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices?.enumerateDevices) return;
 
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
+    const handleDeviceChange = async () => {
+      const list = await refreshCameras();
+      if (!isDetectingRef.current) return;
+      const settings = cameraSettingsRef.current;
+      const available = (deviceId: string | null) => list.some(camera => camera.deviceId === deviceId);
+
+      if (!available(activeDeviceIdRef.current)) {
+        if (list.length === 0) {
+          toast.error('Camera disconnected');
+          stopDetection();
+        } else {
+          toast.warning('Camera disconnected, switched to another camera');
+          switchCamera({ ...settings, deviceId: available(settings.deviceId) ? settings.deviceId : null });
+        }
+      } else if (settings.deviceId && settings.deviceId !== activeDeviceIdRef.current && available(settings.deviceId)) {
+        toast.info('Preferred camera reconnected');
+        switchCamera(settings);
       }
     };
+
+    refreshCameras();
+    mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => mediaDevices.removeEventListener('devicechange', handleDeviceChange);
   }, []);
 
+  // Keep the counter and the detection loop in sync with the edited lines
+  useEffect(() => {
+    saveCountingLines(countingLines);
+    countingLinesRef.current = countingLines;
+    lineCounterRef.current.setLines(countingLines);
+    setLineCounts(lineCounterRef.current.getCounts());
+  }, [countingLines]);
+
+  useEffect(() => {
+    saveZones(zones);
+    zonesRef.current = zones;
+    zoneMonitorRef.current.setZones(zones);
+    setZoneStats(zoneMonitorRef.current.getStats());
+  }, [zones]);
+
+  useEffect(() => {
+    saveAlertRules(alertRules);
+    alertRulesRef.current = alertRules;
+    ruleEngineRef.current.setRules(alertRules);
+  }, [alertRules]);
+
+  useEffect(() => {
+    saveSchedulerSettings(schedulerSettings);
+    schedulerRef.current.setSettings(schedulerSettings);
+  }, [schedulerSettings]);
+
+  useEffect(() => {
+    saveClipSettings(clipSettings);
+    clipCaptureRef.current.setSettings(clipSettings);
+  }, [clipSettings]);
+
+  // Only one overlay can be drawn at a time
+  useEffect(() => {
+    if (zoneDraft.isDrawing) {
+      setIsDrawingLine(false);
+    }
+  }, [zoneDraft.isDrawing]);
+
+  // Start from fresh tracks, as when the camera or its orientation changes
+  const resetTracking = () => {
+    trackerRef.current.reset();
+    lineCounterRef.current.forgetTracks();
+    zoneMonitorRef.current.forgetTracks();
+    ruleEngineRef.current.forgetTracks();
+  };
+
+  const refreshCameras = async () => {
+    try {
+      const list = await listCameras();
+      setCameras(list);
+      return list;
+    } catch (error) {
+      console.error('Error listing cameras:', error);
+      return [];
+    }
+  };
+
+  const setActiveStream = (stream: MediaStream) => {
+    streamRef.current = stream;
+    activeDeviceIdRef.current = streamDeviceId(stream);
+    setActiveDeviceId(activeDeviceIdRef.current);
+  };
+
   // Start webcam stream
   const startWebcam = async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } },
-      });
+      const stream = await openCamera(cameraSettingsRef.current);
+      setActiveStream(stream);
+      // Labels are only listed once access has been granted
+      refreshCameras();
 
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         videoRef.current.onloadedmetadata = () => {
+          // Once only: a camera switch loads new metadata into the same element
+          videoRef.current!.onloadedmetadata = null;
           videoRef.current?.play();
+          resetTracking();
+          perfMonitorRef.current.reset();
+          schedulerRef.current.reset();
+          stopFrameWatchRef.current = watchVideoFrames(videoRef.current!, now => perfMonitorRef.current.recordCapture(now));
+          isDetectingRef.current = true;
           setIsDetecting(true);
           detectObjects();
         };
@@ -92,91 +321,322 @@ export default function ObjectDetector() {
     }
   };
 
-  // Detect objects in video frames
+  // Swap the running stream for one matching `settings`; the detection loop carries on with its frames
+  const switchCamera = async (settings: CameraSettings) => {
+    const video = videoRef.current;
+    if (!video) return;
+    try {
+      const stream = await openCamera(settings);
+      if (!isDetectingRef.current) {
+        // Stopped or left while the camera was opening
+        stream.getTracks().forEach(track => track.stop());
+        return;
+      }
+      const previous = streamRef.current;
+      video.srcObject = stream;
+      setActiveStream(stream);
+      previous?.getTracks().forEach(track => track.stop());
+      await video.play();
+      resetTracking();
+    } catch (error) {
+      console.error('Error switching camera:', error);
+      toast.error('Unable to switch camera');
+    }
+  };
+
+  const changeCameraSettings = (settings: CameraSettings) => {
+    const previous = cameraSettingsRef.current;
+    cameraSettingsRef.current = settings;
+    setCameraSettings(settings);
+    saveCameraSettings(settings);
+    if (!isDetectingRef.current) return;
+
+    if (
+      settings.deviceId !== previous.deviceId ||
+      settings.facingMode !== previous.facingMode ||
+      settings.resolution !== previous.resolution ||
+      settings.frameRate !== previous.frameRate
+    ) {
+      switchCamera(settings);
+    } else if (settings.mirror !== previous.mirror) {
+      // Tracks would jump across the frame
+      resetTracking();
+    }
+  };
+
+  // Zones, boxes and counting lines, plus any shape being drawn, over the frame on the canvas
+  const drawOverlay = (ctx: CanvasRenderingContext2D, tracked: Detection[], stats: ZoneStats[], counts: LineCount[]) => {
+    drawZones(ctx, zonesRef.current, stats);
+    if (zoneDraft.pointsRef.current) {
+      drawZoneDraft(ctx, zoneDraft.pointsRef.current);
+    }
+    drawDetections(ctx, tracked);
+    drawCountingLines(ctx, countingLinesRef.current, counts);
+    if (lineDraftRef.current) {
+      drawCountingLines(ctx, [createCountingLine(lineDraftRef.current.start, lineDraftRef.current.end, countingLinesRef.current.length)]);
+    }
+  };
+
+  const scheduleNextFrame = () => {
+    cancelFrameRef.current = requestFrame(() => {
+      cancelFrameRef.current = null;
+      detectObjects();
+    });
+  };
+
+  // Detect objects in video frames, or predict their boxes on the frames the scheduler skips
   const detectObjects = async () => {
-    if (!videoRef.current || !canvasRef.current || !modelRef.current || !isDetecting) {
+    const scheduler = schedulerRef.current;
+    if (!videoRef.current || !canvasRef.current || !isDetectingRef.current || scheduler.getState().paused) {
+      return;
+    }
+    if (!scheduler.isDue(performance.now())) {
+      scheduleNextFrame();
       return;
     }
 
+    frameInFlightRef.current = true;
     try {
       const canvas = canvasRef.current;
       const ctx = canvas.getContext('2d');
       const video = videoRef.current;
 
+      // No frame yet while a new camera starts up
+      if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || video.videoWidth === 0) {
+        scheduleNextFrame();
+        return;
+      }
+
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
+      const { mirror } = cameraSettingsRef.current;
 
-      if (ctx) {
-        ctx.drawImage(video, 0, 0);
-        const predictions = await modelRef.current.detect(canvas);
-
-        // Draw bounding boxes
-        predictions.forEach((prediction) => {
-          const [x, y, width, height] = prediction.bbox;
-          ctx.strokeStyle = '#00d9ff';
-          ctx.lineWidth = 2;
-          ctx.setLineDash([4, 2]);
-          ctx.strokeRect(x, y, width, height);
-          ctx.setLineDash([]);
-
-          const label = `${prediction.class} ${(prediction.score * 100).toFixed(1)}%`;
-          ctx.font = 'bold 12px sans-serif';
-          const textMetrics = ctx.measureText(label);
-          ctx.fillStyle = '#00d9ff';
-          ctx.fillRect(x, y - 18, textMetrics.width + 4, 16);
-          ctx.fillStyle = '#0f1419';
-          ctx.fillText(label, x + 2, y - 4);
-        });
+      if (ctx && scheduler.nextFrameDetects()) {
+        // Grab the frame once: it is painted here and handed to the engine,
+        // which transfers it to the inference worker
+        const frameStart = performance.now();
+        perfMonitorRef.current.startInference();
+        const frame = await createImageBitmap(video);
+        drawVideoFrame(ctx, frame, mirror);
+        // The model gets a smaller copy while it is running over the latency budget
+        const { scale } = scheduler.getState();
+        const input = scale < 1
+          ? await createImageBitmap(frame, {
+              resizeWidth: Math.round(frame.width * scale),
+              resizeHeight: Math.round(frame.height * scale),
+              resizeQuality: 'low',
+            })
+          : frame;
+        // Read before the bitmap is transferred away
+        const upscale = canvas.width / input.width;
+        if (input !== frame) frame.close();
+        const found = scaleDetections(await detect(input), upscale);
+        if (!isDetectingRef.current) return;
+        const predictions = mirror ? mirrorDetections(found, canvas.width) : found;
+
+        // Draw the tracked boxes rather than the raw ones so IDs stay stable
+        const now = performance.now();
+        perfMonitorRef.current.recordInference(now - frameStart, now);
+        scheduler.recordLatency(now - frameStart);
+        const visible = filterDetectionsByZones(predictions, zonesRef.current, canvas.width, canvas.height);
+        const tracked = trackerRef.current.update(visible, now);
+        lineCounterRef.current.update(tracked, canvas.width, canvas.height);
+        const counts = lineCounterRef.current.getCounts();
+        const stats = zoneMonitorRef.current.update(tracked, canvas.width, canvas.height, now);
+        drawOverlay(ctx, tracked, stats, counts);
+        recorderRef.current?.addFrame(tracked);
+        clipCaptureRef.current.addFrame(canvas, tracked, now);
+        setDetections(tracked);
+        setLineCounts(counts);
 
-        setDetections(predictions.map(p => ({
-          class: p.class,
-          score: p.score,
-          bbox: p.bbox as [number, number, number, number]
-        })));
+        // Evaluated after drawing so snapshot actions capture the annotated frame
+        const events = ruleEngineRef.current.evaluate({
+          detections: tracked,
+          width: canvas.width,
+          height: canvas.height,
+          zones: zonesRef.current,
+          now,
+        });
+        events.forEach(event => {
+          const rule = alertRulesRef.current.find(r => r.id === event.ruleId);
+          if (rule) {
+            runAlertActions(rule, event, {
+              captureSnapshot: () => captureSnapshot(tracked),
+              captureClip: () => clipCaptureRef.current.trigger(event.message, tracked, now),
+            });
+          }
+        });
+        if (events.length > 0) {
+          setAlertEvents(current => [...events.reverse(), ...current].slice(0, MAX_ALERT_EVENTS));
+        }
+        setZoneStats(stats);
+      } else if (ctx) {
+        // Counts, zones and rules only advance on real detections
+        const now = performance.now();
+        drawVideoFrame(ctx, video, mirror);
+        const tracked = trackerRef.current.predict(now);
+        drawOverlay(ctx, tracked, zoneMonitorRef.current.getStats(), lineCounterRef.current.getCounts());
+        recorderRef.current?.addFrame(tracked);
+        clipCaptureRef.current.addFrame(canvas, tracked, now);
       }
 
-      animationFrameRef.current = requestAnimationFrame(detectObjects);
+      scheduleNextFrame();
     } catch (error) {
       console.error('Error detecting objects:', error);
+      // One failed frame, e.g. while the model is being swapped, must not end the session
+      if (isDetectingRef.current) scheduleNextFrame();
+    } finally {
+      perfMonitorRef.current.endInference();
+      frameInFlightRef.current = false;
+    }
+  };
+
+  const startRecording = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    try {
+      const rawStream = includeRawFeed ? videoRef.current?.srcObject as MediaStream | undefined : undefined;
+      recorderRef.current = new SessionRecorder(canvas, rawStream);
+      setIsRecording(true);
+    } catch (error) {
+      console.error('Error starting recording:', error);
+      toast.error('Unable to start recording');
+    }
+  };
+
+  // Must run before the camera tracks are stopped so the raw recording is complete
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setIsRecording(false);
+    try {
+      const recording = await recorder.stop();
+      addRecording(recording);
+      toast.success(`${recording.name} saved`);
+    } catch (error) {
+      console.error('Error saving recording:', error);
+      toast.error('Unable to save recording');
     }
   };
 
   // Stop detection
   const stopDetection = () => {
+    isDetectingRef.current = false;
     setIsDetecting(false);
-    if (videoRef.current?.srcObject) {
-      const tracks = (videoRef.current.srcObject as MediaStream).getTracks();
-      tracks.forEach(track => track.stop());
+    stopFrameWatchRef.current?.();
+    stopFrameWatchRef.current = null;
+    stopRecording();
+    clipCaptureRef.current.stop();
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+    cancelFrameRef.current?.();
+    cancelFrameRef.current = null;
+    setDetections([]);
+    setIsDrawingLine(false);
+    zoneDraft.cancel();
+  };
+
+  // Click to add zone points, or drag to draw a counting line
+  const handleCanvasPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (zoneDraft.isDrawing) {
+      zoneDraft.addPoint(canvasPointFromEvent(e, e.currentTarget));
+      return;
     }
-    if (animationFrameRef.current) {
-      cancelAnimationFrame(animationFrameRef.current);
+    if (!isDrawingLine) return;
+    const point = canvasPointFromEvent(e, e.currentTarget);
+    lineDraftRef.current = { start: point, end: point };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handleCanvasPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lineDraftRef.current) return;
+    lineDraftRef.current.end = canvasPointFromEvent(e, e.currentTarget);
+  };
+
+  const handleCanvasPointerUp = () => {
+    const draft = lineDraftRef.current;
+    lineDraftRef.current = null;
+    if (!draft) return;
+
+    // Ignore clicks that did not drag out a usable line
+    if (Math.hypot(draft.end.x - draft.start.x, draft.end.y - draft.start.y) > 0.02) {
+      setCountingLines([...countingLines, createCountingLine(draft.start, draft.end, countingLines.length)]);
     }
-    setDetections([]);
+    setIsDrawingLine(false);
+  };
+
+  const resetZoneStats = () => {
+    zoneMonitorRef.current.reset();
+    setZoneStats([]);
+  };
+
+  const resetLineCounts = () => {
+    lineCounterRef.current.resetCounts();
+    setLineCounts(lineCounterRef.current.getCounts());
   };
 
   // Capture snapshot
-  const captureSnapshot = () => {
-    if (canvasRef.current) {
-      const imageData = canvasRef.current.toDataURL('image/png');
+  // Also called by alert rules from the detection loop, which passes its own frame's detections
+  const captureSnapshot = async (frameDetections: Detection[] = detections) => {
+    if (!canvasRef.current) return;
+    try {
+      const timestamp = new Date();
+      // Both are copied before awaiting so the raw frame matches the annotated one as closely as possible
+      const image = canvasToBlob(canvasRef.current);
+      const sourceImage = videoRef.current
+        ? captureVideoFrame(videoRef.current, undefined, cameraSettingsRef.current.mirror)
+        : undefined;
       const snapshot: Snapshot = {
-        id: Date.now().toString(),
-        timestamp: new Date(),
-        imageData,
-        detections: [...detections]
+        id: crypto.randomUUID(),
+        timestamp,
+        image: await image,
+        sourceImage: await sourceImage,
+        detections: [...frameDetections]
       };
-      setSnapshots([snapshot, ...snapshots]);
+      setSnapshots(current => [snapshot, ...current]);
+      snapshotStore.put(snapshot).catch(reportStorageError);
+    } catch (error) {
+      console.error('Error capturing snapshot:', error);
+      toast.error('Unable to capture snapshot');
     }
   };
 
+  const deleteSnapshots = (ids: string[]) => {
+    setSnapshots(current => current.filter(s => !ids.includes(s.id)));
+    snapshotStore.delete(ids).catch(error => console.error('Error deleting snapshots:', error));
+  };
+
+  const addRecording = (recording: Recording) => {
+    setRecordings(current => [recording, ...current]);
+    recordingStore.put(recording).catch(reportStorageError);
+  };
+
+  const deleteRecordings = (ids: string[]) => {
+    setRecordings(current => current.filter(r => !ids.includes(r.id)));
+    recordingStore.delete(ids).catch(error => console.error('Error deleting recordings:', error));
+  };
+
+  // One row per line total plus one per counted class
+  const lineCountRows = () => countingLines.flatMap(line => {
+    const count = lineCounts.find(c => c.lineId === line.id);
+    if (!count) return [];
+    return [
+      [line.name, 'all', count.in, count.out].join(','),
+      ...Object.entries(count.byClass).map(([cls, totals]) => [line.name, cls, totals.in, totals.out].join(',')),
+    ];
+  });
+
   // Export snapshots as CSV
   const exportAsCSV = () => {
-    const headers = ['Timestamp', 'Object Class', 'Confidence', 'X', 'Y', 'Width', 'Height'];
+    const headers = ['Timestamp', 'Track ID', 'Object Class', 'Confidence', 'X', 'Y', 'Width', 'Height'];
     const rows: string[] = [];
 
     snapshots.forEach(snapshot => {
       snapshot.detections.forEach(d => {
         rows.push([
           snapshot.timestamp.toISOString(),
+          d.trackId ?? '',
           d.class,
           (d.score * 100).toFixed(2),
           d.bbox[0].toFixed(2),
@@ -187,7 +647,18 @@ export default function ObjectDetector() {
       });
     });
 
-    const csv = [headers.join(','), ...rows].join('\n');
+    // Line totals follow the detections as a second table
+    const lineRows = countingLines.length > 0
+      ? ['', ['Counting Line', 'Object Class', 'In', 'Out'].join(','), ...lineCountRows()]
+      : [];
+    const zoneRows = zones.length > 0
+      ? ['', ['Zone', 'Occupancy', 'Visits', 'Average Dwell (s)'].join(','), ...zones.map(zone => {
+          const stats = zoneStats.find(z => z.zoneId === zone.id);
+          return [zone.name, stats?.occupancy ?? 0, stats?.visits ?? 0, ((stats?.averageDwellMs ?? 0) / 1000).toFixed(1)].join(',');
+        })]
+      : [];
+
+    const csv = [headers.join(','), ...rows, ...lineRows, ...zoneRows].join('\n');
     const blob = new Blob([csv], { type: 'text/csv' });
     const url = window.URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -200,9 +671,23 @@ export default function ObjectDetector() {
   const exportAsJSON = () => {
     const data = {
       timestamp: new Date().toISOString(),
+      countingLines: countingLines.map(line => ({
+        name: line.name,
+        start: line.start,
+        end: line.end,
+        classes: line.classes,
+        ...lineCounts.find(c => c.lineId === line.id),
+      })),
+      zones: zones.map(zone => ({
+        name: zone.name,
+        points: zone.points,
+        filter: zone.filter,
+        ...zoneStats.find(z => z.zoneId === zone.id),
+      })),
       snapshots: snapshots.map(s => ({
         timestamp: s.timestamp.toISOString(),
         detections: s.detections.map(d => ({
+          trackId: d.trackId,
           class: d.class,
           confidence: (d.score * 100).toFixed(2),
           bbox: {
@@ -223,6 +708,17 @@ export default function ObjectDetector() {
     a.click();
   };
 
+  // Export snapshots as a labelled dataset ZIP, using the raw frames where kept
+  const exportDataset = async (options: DatasetExportOptions) => {
+    try {
+      const zip = await createDatasetZip(await snapshotImages(snapshots), options, 'Detect AI snapshots');
+      downloadBlob(zip, `detections-${options.format}-${Date.now()}.zip`);
+    } catch (error) {
+      console.error('Error exporting dataset:', error);
+      toast.error('Unable to export dataset');
+    }
+  };
+
   // Calculate average confidence
   const avgConfidence = detections.length > 0
     ? (detections.reduce((sum, d) => sum + d.score, 0) / detections.length * 100).toFixed(1)
@@ -240,8 +736,56 @@ export default function ObjectDetector() {
             <h1 className="text-xl font-bold">Detect <span className="text-accent">AI</span></h1>
           </div>
           <div className="flex items-center gap-2">
-            <div className="w-2 h-2 rounded-full bg-green-500" />
-            <span className="text-sm font-medium text-green-500">{modelStatus}</span>
+            {!isOnline && (
+              <span className="flex items-center gap-1 px-2 py-0.5 rounded-full border border-yellow-500/40 bg-yellow-500/10 text-xs text-yellow-500">
+                <WifiOff className="w-3 h-3" />
+                Offline
+              </span>
+            )}
+            <div className={`w-2 h-2 rounded-full ${statusColor.dot}`} />
+            <span className={`text-sm font-medium ${statusColor.text}`}>
+              {modelStatus}
+              {isLoading && ` ${Math.round(engineStatus.progress * 100)}%`}
+              {engineStatus.state === 'ready' && engineStatus.lastLoad && (
+                <span className="text-muted-foreground">
+                  {` in ${(engineStatus.lastLoad.timeMs / 1000).toFixed(1)}s`}
+                  {engineStatus.lastLoad.fromCache && ' (cached)'}
+                </span>
+              )}
+              {engineStatus.runtime && (
+                <span className="text-muted-foreground">
+                  {' · '}{engineStatus.runtime === 'worker' ? 'Worker' : 'Main thread'}
+                </span>
+              )}
+              {engineStatus.backend && (
+                <span className="text-muted-foreground">
+                  {' · '}{engineStatus.backend.backend}
+                  {engineStatus.backend.preference === 'auto' && ` (auto${benchmarkMs !== undefined ? `, ${benchmarkMs.toFixed(0)} ms` : ''})`}
+                </span>
+              )}
+              {isDetecting && (
+                <span className={scheduleState.paused ? 'text-yellow-500' : 'text-muted-foreground'}>
+                  {' · '}{describeSchedule(schedulerSettings, scheduleState)}
+                </span>
+              )}
+            </span>
+            <Link
+              href="/history"
+              className="w-9 h-9 rounded-lg border border-border/30 hover:bg-card/50 flex items-center justify-center transition-colors"
+              aria-label="History"
+              title="History"
+            >
+              <HistoryIcon className="w-4 h-4 text-muted-foreground" />
+            </Link>
+            <Link
+              href="/benchmark"
+              className="w-9 h-9 rounded-lg border border-border/30 hover:bg-card/50 flex items-center justify-center transition-colors"
+              aria-label="Benchmark"
+              title="Benchmark"
+            >
+              <Gauge className="w-4 h-4 text-muted-foreground" />
+            </Link>
+            <SettingsPanel />
           </div>
         </div>
       </header>
@@ -281,16 +825,37 @@ export default function ObjectDetector() {
             {/* Left Section - Camera Feed */}
             <div className="flex-1 flex flex-col gap-4">
               {/* Camera Preview */}
-              <div className="glass border-2 border-accent/60 rounded-2xl overflow-hidden aspect-video lg:aspect-auto lg:h-96 glow-cyan">
+              <div className="relative glass border-2 border-accent/60 rounded-2xl overflow-hidden aspect-video lg:aspect-auto lg:h-96 glow-cyan">
                 <canvas
                   ref={canvasRef}
-                  className="w-full h-full object-cover hidden"
+                  onPointerDown={handleCanvasPointerDown}
+                  onPointerMove={handleCanvasPointerMove}
+                  onPointerUp={handleCanvasPointerUp}
+                  className={`absolute inset-0 w-full h-full object-cover ${isDetecting ? '' : 'hidden'} ${
+                    isDrawingLine || zoneDraft.isDrawing ? 'cursor-crosshair touch-none' : ''
+                  }`}
                 />
                 <video
                   ref={videoRef}
-                  className="w-full h-full object-cover bg-black"
+                  className={`w-full h-full object-cover bg-black ${cameraSettings.mirror ? '-scale-x-100' : ''}`}
                   playsInline
                 />
+                {isDetecting && showPerfHud && <PerfHud monitor={perfMonitorRef.current} />}
+                {isDetecting && (
+                  <button
+                    onClick={() => {
+                      setShowPerfHud(!showPerfHud);
+                      saveShowPerfHud(!showPerfHud);
+                    }}
+                    className={`absolute top-2 right-2 z-10 w-8 h-8 rounded-lg bg-black/60 flex items-center justify-center transition-colors ${
+                      showPerfHud ? 'text-accent' : 'text-white/70 hover:text-white'
+                    }`}
+                    aria-label={showPerfHud ? 'Hide performance' : 'Show performance'}
+                    title={showPerfHud ? 'Hide performance' : 'Show performance'}
+                  >
+                    <Activity className="w-4 h-4" />
+                  </button>
+                )}
                 {!isDetecting && (
                   <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
                     <div className="text-center">
@@ -303,12 +868,20 @@ export default function ObjectDetector() {
                 )}
               </div>
 
+              <CameraControls
+                settings={cameraSettings}
+                onSettingsChange={changeCameraSettings}
+                cameras={cameras}
+                activeDeviceId={isDetecting ? activeDeviceId : null}
+                disabled={isRecording}
+              />
+
               {/* Control Button */}
               <div className="glass rounded-2xl p-4 glow-cyan">
                 {!isDetecting ? (
                   <button
                     onClick={startWebcam}
-                    disabled={isLoading}
+                    disabled={!isReady}
                     className="w-full bg-accent text-background hover:bg-accent/90 disabled:opacity-50 disabled:cursor-not-allowed font-semibold rounded-lg py-3 transition-all flex items-center justify-center gap-2"
                   >
                     {isLoading ? (
@@ -338,25 +911,71 @@ export default function ObjectDetector() {
               {isDetecting && (
                 <div className="flex gap-3">
                   <button
-                    onClick={captureSnapshot}
+                    onClick={() => captureSnapshot()}
                     className="flex-1 glass border border-accent/50 hover:bg-card/50 rounded-lg py-2 text-sm font-medium transition-all flex items-center justify-center gap-2"
                   >
                     <ImageIcon className="w-4 h-4" />
                     Capture
                   </button>
-                  {snapshots.length > 0 && (
+                  {supportsCanvasRecording() && (
                     <button
-                      onClick={() => setShowSnapshots(!showSnapshots)}
-                      className="flex-1 glass border border-accent/50 hover:bg-card/50 rounded-lg py-2 text-sm font-medium transition-all"
+                      onClick={isRecording ? stopRecording : startRecording}
+                      className={`flex-1 glass border rounded-lg py-2 text-sm font-medium transition-all flex items-center justify-center gap-2 ${
+                        isRecording ? 'border-destructive/70 text-destructive hover:bg-destructive/10' : 'border-accent/50 hover:bg-card/50'
+                      }`}
                     >
-                      Snapshots ({snapshots.length})
+                      {isRecording ? (
+                        <>
+                          <Square className="w-4 h-4 fill-current" />
+                          Stop
+                        </>
+                      ) : (
+                        <>
+                          <Circle className="w-4 h-4 fill-destructive text-destructive" />
+                          Record
+                        </>
+                      )}
                     </button>
                   )}
                 </div>
               )}
 
+              {/* Recording Options & Saved Items */}
+              {((isDetecting && supportsCanvasRecording()) || snapshots.length > 0 || recordings.length > 0) && (
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  {isDetecting && supportsCanvasRecording() ? (
+                    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Checkbox
+                        checked={includeRawFeed}
+                        onCheckedChange={(checked) => setIncludeRawFeed(checked === true)}
+                        disabled={isRecording}
+                      />
+                      Include raw feed
+                    </label>
+                  ) : <span />}
+                  <div className="flex gap-2">
+                    {snapshots.length > 0 && (
+                      <button
+                        onClick={() => setShowSnapshots(true)}
+                        className="glass border border-accent/50 hover:bg-card/50 rounded-lg px-3 py-2 text-sm font-medium transition-all"
+                      >
+                        Snapshots ({snapshots.length})
+                      </button>
+                    )}
+                    {recordings.length > 0 && (
+                      <button
+                        onClick={() => setShowRecordings(true)}
+                        className="glass border border-accent/50 hover:bg-card/50 rounded-lg px-3 py-2 text-sm font-medium transition-all"
+                      >
+                        Recordings ({recordings.length})
+                      </button>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Export Buttons */}
-              {snapshots.length > 0 && (
+              {(snapshots.length > 0 || countingLines.length > 0 || zones.length > 0) && (
                 <div className="flex gap-3">
                   <button
                     onClick={exportAsCSV}
@@ -372,6 +991,15 @@ export default function ObjectDetector() {
                     <Download className="w-4 h-4" />
                     JSON
                   </button>
+                  {snapshots.length > 0 && (
+                    <button
+                      onClick={() => setShowDatasetExport(true)}
+                      className="flex-1 bg-accent text-background hover:bg-accent/90 font-semibold rounded-lg py-2 text-sm transition-all flex items-center justify-center gap-2"
+                    >
+                      <Download className="w-4 h-4" />
+                      Dataset
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -392,9 +1020,9 @@ export default function ObjectDetector() {
                   ) : (
                     <div className="space-y-2">
                       {detections.map((detection, idx) => (
-                        <div key={idx} className="p-2 bg-card/50 rounded border border-border/30">
+                        <div key={detection.trackId ?? idx} className="p-2 bg-card/50 rounded border border-border/30">
                           <div className="flex items-center justify-between">
-                            <span className="text-xs font-medium">{detection.class}</span>
+                            <span className="text-xs font-medium">{formatDetectionName(detection)}</span>
                             <span className="text-xs font-semibold text-accent">{(detection.score * 100).toFixed(1)}%</span>
                           </div>
                         </div>
@@ -427,9 +1055,63 @@ export default function ObjectDetector() {
                     </div>
                     <Percent className="w-6 h-6 text-accent/50" />
                   </div>
+
+                  {/* Line Crossings */}
+                  {countingLines.map(line => {
+                    const count = lineCounts.find(c => c.lineId === line.id);
+                    return (
+                      <div key={line.id} className="flex items-center justify-between">
+                        <div>
+                          <p className="text-2xl font-bold text-accent">
+                            {count?.in ?? 0}
+                            <span className="text-muted-foreground font-normal"> in · </span>
+                            {count?.out ?? 0}
+                            <span className="text-muted-foreground font-normal"> out</span>
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">{line.name}</p>
+                        </div>
+                        <ArrowRightLeft className="w-6 h-6 text-accent/50" />
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
 
+              <CountingLinesPanel
+                lines={countingLines}
+                onLinesChange={setCountingLines}
+                isDrawing={isDrawingLine}
+                onDrawingChange={(drawing) => {
+                  if (drawing) zoneDraft.cancel();
+                  setIsDrawingLine(drawing);
+                }}
+                canDraw={isDetecting}
+                onResetCounts={resetLineCounts}
+              />
+
+              <ZonesPanel
+                zones={zones}
+                onZonesChange={setZones}
+                draft={zoneDraft}
+                canDraw={isDetecting}
+                stats={zoneStats}
+                onResetStats={resetZoneStats}
+              />
+
+              <RulesPanel
+                rules={alertRules}
+                onRulesChange={setAlertRules}
+                zones={zones}
+                events={alertEvents}
+                onClearEvents={() => setAlertEvents([])}
+              />
+
+              <SchedulerPanel settings={schedulerSettings} onSettingsChange={setSchedulerSettings} />
+
+              {supportsCanvasRecording() && (
+                <ClipCapturePanel settings={clipSettings} onSettingsChange={setClipSettings} />
+              )}
+
               {/* Made with Manus */}
               <div className="glass border border-border/30 rounded-xl px-3 py-2 text-xs text-muted-foreground text-center">
                 Made with Manus 🚀
@@ -438,59 +1120,33 @@ export default function ObjectDetector() {
           </>
         ) : (
           <div className="w-full">
-            <BatchProcessor />
+            <BatchProcessor zones={zones} onZonesChange={setZones} />
           </div>
         )}
       </main>
 
+      {showRecordings && (
+        <RecordingsGallery
+          recordings={recordings}
+          onDelete={deleteRecordings}
+          onClose={() => setShowRecordings(false)}
+        />
+      )}
+
+      <DatasetExportDialog
+        open={showDatasetExport}
+        onOpenChange={setShowDatasetExport}
+        classes={Array.from(new Set(snapshots.flatMap(s => s.detections.map(d => d.class)))).sort()}
+        onExport={exportDataset}
+      />
+
       {/* Snapshots Modal */}
-      {showSnapshots && snapshots.length > 0 && (
-        <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-          <div className="bg-card border border-border/30 rounded-2xl max-w-2xl w-full max-h-96 overflow-y-auto">
-            <div className="sticky top-0 border-b border-border/30 px-6 py-4 bg-card/50 backdrop-blur-sm flex items-center justify-between">
-              <h3 className="font-semibold">Snapshots ({snapshots.length})</h3>
-              <button
-                onClick={() => setShowSnapshots(false)}
-                className="text-muted-foreground hover:text-foreground"
-              >
-                ✕
-              </button>
-            </div>
-            <div className="grid grid-cols-2 gap-4 p-4">
-              {snapshots.map(snapshot => (
-                <div key={snapshot.id} className="relative group">
-                  <img
-                    src={snapshot.imageData}
-                    alt="snapshot"
-                    className="w-full aspect-video object-cover rounded-lg border border-border/30"
-                  />
-                  <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center gap-2">
-                    <button
-                      onClick={() => {
-                        const a = document.createElement('a');
-                        a.href = snapshot.imageData;
-                        a.download = `snapshot-${snapshot.id}.png`;
-                        a.click();
-                      }}
-                      className="p-2 bg-accent rounded-lg hover:bg-accent/90"
-                    >
-                      <Download className="w-4 h-4 text-background" />
-                    </button>
-                    <button
-                      onClick={() => setSnapshots(snapshots.filter(s => s.id !== snapshot.id))}
-                      className="p-2 bg-destructive rounded-lg hover:bg-destructive/90"
-                    >
-                      <Trash2 className="w-4 h-4 text-background" />
-                    </button>
-                  </div>
-                  <p className="text-xs text-muted-foreground mt-2 text-center">
-                    {snapshot.detections.length} objects
-                  </p>
-                </div>
-              ))}
-            </div>
-          </div>
-        </div>
+      {showSnapshots && (
+        <SnapshotsGallery
+          snapshots={snapshots}
+          onDelete={deleteSnapshots}
+          onClose={() => setShowSnapshots(false)}
+        />
       )}
     </div>
   );
@@ -0,0 +1,91 @@
+import { useDetectionEngine } from '@/contexts/DetectionEngineContext';
+import { formatBytes } from '@/lib/modelCache';
+import { PERF_HISTORY_LENGTH, type PerfMonitor, type PerfSample } from '@/lib/perfMonitor';
+import { useEffect, useState } from 'react';
+
+interface PerfHudProps {
+  monitor: PerfMonitor;
+}
+
+const SAMPLE_INTERVAL_MS = 500;
+
+function Sparkline({ values }: { values: (number | null)[] }) {
+  const points = values.flatMap((value, i) => (value === null ? [] : [{ x: i, y: value }]));
+  if (points.length < 2) return <svg className="w-16 h-4" />;
+  const max = Math.max(...points.map(point => point.y), 1e-6);
+  const min = Math.min(...points.map(point => point.y), 0);
+  const range = max - min || 1;
+
+  return (
+    <svg viewBox={`0 0 ${PERF_HISTORY_LENGTH - 1} 1`} preserveAspectRatio="none" className="w-16 h-4">
+      <polyline
+        points={points.map(point => `${point.x + PERF_HISTORY_LENGTH - values.length},${1 - (point.y - min) / range}`).join(' ')}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={1.5}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
+function Row({ label, value, history }: { label: string; value: string; history?: (number | null)[] }) {
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <span className="text-white/60">{label}</span>
+      <span className="flex items-center gap-2">
+        {history && <span className="text-accent"><Sparkline values={history} /></span>}
+        <span className="min-w-20 text-right tabular-nums">{value}</span>
+      </span>
+    </div>
+  );
+}
+
+/**
+ * PerfHud Component
+ *
+ * Overlay over the live feed with capture and inference FPS, latency, dropped
+ * frames, the active backend and the tensor count where inference runs, each
+ * with a short history so slowdowns and tensor leaks stand out.
+ */
+export default function PerfHud({ monitor }: PerfHudProps) {
+  const { engine, status } = useDetectionEngine();
+  const [history, setHistory] = useState<PerfSample[]>([]);
+  const latest = history[history.length - 1];
+
+  useEffect(() => {
+    let cancelled = false;
+    const interval = setInterval(async () => {
+      const memory = await engine.memory().catch(() => null);
+      if (cancelled) return;
+      const sample = monitor.sample(memory);
+      setHistory(current => [...current, sample].slice(-PERF_HISTORY_LENGTH));
+    }, SAMPLE_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [engine, monitor]);
+
+  const format = (value: number | null | undefined, digits: number, unit = '') =>
+    value === null || value === undefined ? '—' : `${value.toFixed(digits)}${unit}`;
+
+  return (
+    <div className="absolute top-2 left-2 z-10 w-64 rounded-lg bg-black/70 backdrop-blur-sm p-2 font-mono text-[11px] text-white space-y-0.5 pointer-events-none">
+      <Row label="Capture" value={format(latest?.captureFps, 1, ' fps')} history={history.map(s => s.captureFps)} />
+      <Row label="Inference" value={format(latest?.inferenceFps, 1, ' fps')} history={history.map(s => s.inferenceFps)} />
+      <Row label="Latency" value={format(latest?.latencyMs, 0, ' ms')} history={history.map(s => s.latencyMs)} />
+      <Row label="Dropped" value={format(latest?.droppedFrames, 0)} />
+      <Row
+        label="Tensors"
+        value={format(latest?.memory?.numTensors, 0)}
+        history={history.map(s => s.memory?.numTensors ?? null)}
+      />
+      <Row label="Memory" value={latest?.memory ? formatBytes(latest.memory.numBytes) : '—'} />
+      <Row
+        label="Backend"
+        value={status.backend ? `${status.backend.backend}${status.runtime === 'worker' ? ' · worker' : ''}` : '—'}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useObjectUrl } from '@/hooks/useObjectUrl';
+import { downloadBlob, downloadJSON } from '@/lib/download';
+import { formatBytes } from '@/lib/modelCache';
+import { recordingSidecar, type Recording } from '@/lib/recordings';
+import { Download, FileJson, Trash2, Video } from 'lucide-react';
+import { useState } from 'react';
+import StorageUsage from './StorageUsage';
+
+interface RecordingsGalleryProps {
+  recordings: Recording[];
+  onDelete: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+interface RecordingCardProps {
+  recording: Recording;
+  selected: boolean;
+  onSelectedChange: (selected: boolean) => void;
+  onDelete: () => void;
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function RecordingCard({ recording, selected, onSelectedChange, onDelete }: RecordingCardProps) {
+  const url = useObjectUrl(recording.annotated);
+  const baseName = `recording-${recording.createdAt.getTime()}`;
+
+  return (
+    <div className="space-y-2">
+      {url && (
+        <video src={url} controls playsInline className="w-full aspect-video rounded-lg border border-border/30 bg-black" />
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <Checkbox
+          checked={selected}
+          onCheckedChange={(checked) => onSelectedChange(checked === true)}
+          aria-label={`Select ${recording.name}`}
+        />
+        <div className="min-w-0 flex-1">
+          <p className="text-xs font-medium truncate" title={recording.name}>{recording.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {formatDuration(recording.durationMs)} · {formatBytes(recording.annotated.size + (recording.raw?.size ?? 0))}
+          </p>
+          {recording.trigger && (
+            <p className="text-xs text-accent">
+              Triggered at {formatDuration(recording.trigger.timeMs)} · {recording.trigger.detections.length} objects
+            </p>
+          )}
+        </div>
+        <div className="flex gap-1 shrink-0">
+          <button
+            onClick={() => downloadBlob(recording.annotated, `${baseName}.webm`)}
+            className="p-1.5 bg-accent rounded hover:bg-accent/90"
+            aria-label="Download annotated video"
+            title="Annotated video"
+          >
+            <Download className="w-3.5 h-3.5 text-background" />
+          </button>
+          {recording.raw && (
+            <button
+              onClick={() => downloadBlob(recording.raw!, `${baseName}-raw.webm`)}
+              className="p-1.5 bg-accent rounded hover:bg-accent/90"
+              aria-label="Download raw video"
+              title="Raw camera feed"
+            >
+              <Video className="w-3.5 h-3.5 text-background" />
+            </button>
+          )}
+          <button
+            onClick={() => downloadJSON(recordingSidecar(recording), `${baseName}.json`)}
+            className="p-1.5 bg-accent rounded hover:bg-accent/90"
+            aria-label="Download detections"
+            title="Detections (JSON)"
+          >
+            <FileJson className="w-3.5 h-3.5 text-background" />
+          </button>
+          <button
+            onClick={onDelete}
+            className="p-1.5 bg-destructive rounded hover:bg-destructive/90"
+            aria-label="Delete recording"
+          >
+            <Trash2 className="w-3.5 h-3.5 text-background" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * RecordingsGallery Component
+ *
+ * Modal listing the live-view recordings with playback, downloads of the
+ * annotated clip, the raw feed and the detections sidecar, and deletion one
+ * at a time or in bulk.
+ */
+export default function RecordingsGallery({ recordings, onDelete, onClose }: RecordingsGalleryProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const allSelected = recordings.length > 0 && selectedIds.length === recordings.length;
+
+  const deleteRecordings = (ids: string[]) => {
+    onDelete(ids);
+    setSelectedIds(current => current.filter(id => !ids.includes(id)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-card border border-border/30 rounded-2xl max-w-3xl w-full max-h-[80vh] overflow-y-auto">
+        <div className="sticky top-0 border-b border-border/30 px-6 py-4 bg-card/50 backdrop-blur-sm space-y-3 z-10">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-semibold">Recordings ({recordings.length})</h3>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedIds(allSelected ? [] : recordings.map(r => r.id))}
+                disabled={recordings.length === 0}
+              >
+                {allSelected ? 'Deselect all' : 'Select all'}
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => deleteRecordings(selectedIds)}
+                disabled={selectedIds.length === 0}
+              >
+                <Trash2 />
+                Delete{selectedIds.length > 0 && ` (${selectedIds.length})`}
+              </Button>
+              <button onClick={onClose} className="text-muted-foreground hover:text-foreground ml-2">
+                ✕
+              </button>
+            </div>
+          </div>
+          <StorageUsage refreshKey={recordings} />
+        </div>
+        {recordings.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground text-center">No recordings yet.</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-4">
+            {recordings.map(recording => (
+              <RecordingCard
+                key={recording.id}
+                recording={recording}
+                selected={selectedIds.includes(recording.id)}
+                onSelectedChange={(selected) => setSelectedIds(current =>
+                  selected ? [...current, recording.id] : current.filter(id => id !== recording.id)
+                )}
+                onDelete={() => deleteRecordings([recording.id])}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { requestNotificationPermission } from '@/lib/alertActions';
+import {
+  ALERT_ACTIONS,
+  COUNT_OPERATORS,
+  describeCondition,
+  type AlertAction,
+  type AlertRule,
+  type CountOperator,
+  type RuleCondition,
+} from '@/lib/alertRules';
+import type { Zone } from '@/lib/zones';
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+
+type ConditionType = 'count' | 'enter' | 'exit';
+
+// Select items need a non-empty value
+const WHOLE_FRAME = 'frame';
+
+interface RuleBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  zones: Zone[];
+  /** Rule to edit; a new rule is created when unset */
+  rule?: AlertRule;
+  onSave: (rule: AlertRule) => void;
+}
+
+/**
+ * RuleBuilderDialog Component
+ *
+ * Form for one alert rule: a count or zone condition, the actions to run when
+ * it fires and a cooldown between alerts.
+ */
+export default function RuleBuilderDialog({ open, onOpenChange, zones, rule, onSave }: RuleBuilderDialogProps) {
+  const [name, setName] = useState('');
+  const [conditionType, setConditionType] = useState<ConditionType>('count');
+  const [className, setClassName] = useState('person');
+  const [zoneId, setZoneId] = useState(WHOLE_FRAME);
+  const [operator, setOperator] = useState<CountOperator>('>');
+  const [value, setValue] = useState(3);
+  const [durationSec, setDurationSec] = useState(10);
+  const [actions, setActions] = useState<AlertAction[]>(['toast']);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [cooldownSec, setCooldownSec] = useState(30);
+
+  // Reset the form from the rule being edited every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const condition = rule?.condition;
+    setName(rule?.name ?? '');
+    setConditionType(condition?.type === 'zone' ? condition.event : 'count');
+    setClassName(condition?.class ?? 'person');
+    setZoneId(condition?.zoneId ?? (condition?.type === 'zone' ? zones[0]?.id ?? WHOLE_FRAME : WHOLE_FRAME));
+    setOperator(condition?.type === 'count' ? condition.operator : '>');
+    setValue(condition?.type === 'count' ? condition.value : 3);
+    setDurationSec(condition?.type === 'count' ? condition.durationSec : 10);
+    setActions(rule?.actions ?? ['toast']);
+    setWebhookUrl(rule?.webhookUrl ?? '');
+    setCooldownSec(rule?.cooldownSec ?? 30);
+  }, [open, rule]);
+
+  const needsZone = conditionType !== 'count';
+  const selectedZoneId = zoneId === WHOLE_FRAME ? undefined : zoneId;
+
+  const condition: RuleCondition = conditionType === 'count'
+    ? { type: 'count', class: className.trim(), zoneId: selectedZoneId, operator, value, durationSec }
+    : { type: 'zone', event: conditionType, class: className.trim(), zoneId: selectedZoneId ?? '' };
+
+  const canSave = (!needsZone || selectedZoneId) && (!actions.includes('webhook') || webhookUrl.trim());
+
+  const toggleAction = async (action: AlertAction, checked: boolean) => {
+    if (checked && action === 'notification' && !(await requestNotificationPermission())) {
+      toast.error('Notifications are blocked for this site');
+      return;
+    }
+    setActions(checked ? [...actions, action] : actions.filter(a => a !== action));
+  };
+
+  const handleSave = () => {
+    onSave({
+      id: rule?.id ?? crypto.randomUUID(),
+      name: name.trim() || describeCondition(condition, zones),
+      enabled: rule?.enabled ?? true,
+      condition,
+      actions,
+      webhookUrl: actions.includes('webhook') ? webhookUrl.trim() : undefined,
+      cooldownSec,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? 'Edit rule' : 'New rule'}</DialogTitle>
+          <DialogDescription>{describeCondition(condition, zones)}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder={describeCondition(condition, zones)}
+            />
+          </div>
+
+          {/* Condition */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>When</Label>
+              <Select value={conditionType} onValueChange={(v) => setConditionType(v as ConditionType)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="count">Object count</SelectItem>
+                  <SelectItem value="enter" disabled={zones.length === 0}>Object enters zone</SelectItem>
+                  <SelectItem value="exit" disabled={zones.length === 0}>Object leaves zone</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-class">Class</Label>
+              <Input
+                id="rule-class"
+                value={className}
+                onChange={(e) => setClassName(e.target.value)}
+                placeholder="any"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Where</Label>
+            <Select value={zoneId} onValueChange={setZoneId}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Select a zone" />
+              </SelectTrigger>
+              <SelectContent>
+                {!needsZone && <SelectItem value={WHOLE_FRAME}>Whole frame</SelectItem>}
+                {zones.map(zone => (
+                  <SelectItem key={zone.id} value={zone.id}>
+                    {zone.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {conditionType === 'count' && (
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>Count</Label>
+                <Select value={operator} onValueChange={(v) => setOperator(v as CountOperator)}>
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COUNT_OPERATORS.map(op => (
+                      <SelectItem key={op} value={op}>
+                        {op}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-value">Value</Label>
+                <Input
+                  id="rule-value"
+                  type="number"
+                  min={0}
+                  value={value}
+                  onChange={(e) => setValue(Number(e.target.value))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule-duration">For (s)</Label>
+                <Input
+                  id="rule-duration"
+                  type="number"
+                  min={0}
+                  value={durationSec}
+                  onChange={(e) => setDurationSec(Number(e.target.value))}
+                />
+              </div>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="space-y-2">
+            <Label>Then</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {ALERT_ACTIONS.map(action => (
+                <label key={action.value} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={actions.includes(action.value)}
+                    onCheckedChange={(checked) => toggleAction(action.value, checked === true)}
+                  />
+                  {action.label}
+                </label>
+              ))}
+            </div>
+            {actions.includes('webhook') && (
+              <Input
+                value={webhookUrl}
+                onChange={(e) => setWebhookUrl(e.target.value)}
+                placeholder="https://example.com/hooks/detect-ai"
+                type="url"
+                aria-label="Webhook URL"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-cooldown">Cooldown between alerts (s)</Label>
+            <Input
+              id="rule-cooldown"
+              type="number"
+              min={0}
+              value={cooldownSec}
+              onChange={(e) => setCooldownSec(Number(e.target.value))}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleSave}
+            disabled={!canSave}
+            className="bg-accent text-background hover:bg-accent/90"
+          >
+            Save rule
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { describeCondition, type AlertEvent, type AlertRule } from '@/lib/alertRules';
+import type { Zone } from '@/lib/zones';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import RuleBuilderDialog from './RuleBuilderDialog';
+
+interface RulesPanelProps {
+  rules: AlertRule[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  zones: Zone[];
+  events: AlertEvent[];
+  onClearEvents: () => void;
+}
+
+/**
+ * RulesPanel Component
+ *
+ * Lists the alert rules with on/off switches, opens the rule builder, and
+ * shows the log of fired alerts, newest first.
+ */
+export default function RulesPanel({ rules, onRulesChange, zones, events, onClearEvents }: RulesPanelProps) {
+  const [isBuilderOpen, setIsBuilderOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<AlertRule | undefined>();
+
+  const openBuilder = (rule?: AlertRule) => {
+    setEditingRule(rule);
+    setIsBuilderOpen(true);
+  };
+
+  const saveRule = (rule: AlertRule) => {
+    onRulesChange(rules.some(r => r.id === rule.id)
+      ? rules.map(r => (r.id === rule.id ? rule : r))
+      : [...rules, rule]);
+  };
+
+  return (
+    <div className="glass border border-accent/30 rounded-2xl overflow-hidden glow-cyan">
+      <div className="border-b border-border/30 px-4 py-3 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-accent">Alerts</h3>
+        <Button variant="ghost" size="icon-sm" onClick={() => openBuilder()} aria-label="Add rule">
+          <Plus />
+        </Button>
+      </div>
+      <div className="p-4 space-y-3">
+        {rules.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Add a rule to be alerted when something happens, e.g. a person enters a zone.
+          </p>
+        ) : (
+          rules.map(rule => (
+            <div key={rule.id} className="flex items-center gap-2 p-2 bg-card/50 rounded border border-border/30">
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => saveRule({ ...rule, enabled })}
+                aria-label={`Enable ${rule.name}`}
+              />
+              <div className="min-w-0 flex-1">
+                <p className="text-xs font-medium truncate">{rule.name}</p>
+                <p className="text-xs text-muted-foreground truncate">{describeCondition(rule.condition, zones)}</p>
+              </div>
+              <button
+                onClick={() => openBuilder(rule)}
+                className="text-muted-foreground hover:text-foreground shrink-0"
+                aria-label={`Edit ${rule.name}`}
+              >
+                <Pencil className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onRulesChange(rules.filter(r => r.id !== rule.id))}
+                className="text-muted-foreground hover:text-destructive shrink-0"
+                aria-label={`Remove ${rule.name}`}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))
+        )}
+
+        {/* Event Log */}
+        {events.length > 0 && (
+          <div className="pt-2 border-t border-border/30">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Event log</h4>
+              <button onClick={onClearEvents} className="text-xs text-muted-foreground hover:text-foreground">
+                Clear
+              </button>
+            </div>
+            <div className="space-y-1 max-h-40 overflow-y-auto">
+              {events.map(event => (
+                <div key={event.id} className="text-xs">
+                  <span className="text-muted-foreground">{event.timestamp.toLocaleTimeString()}</span>{' '}
+                  <span className="font-medium">{event.ruleName}:</span> {event.message}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <RuleBuilderDialog
+        open={isBuilderOpen}
+        onOpenChange={setIsBuilderOpen}
+        zones={zones}
+        rule={editingRule}
+        onSave={saveRule}
+      />
+    </div>
+  );
+}
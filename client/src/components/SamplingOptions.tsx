@@ -0,0 +1,65 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  createSamplingStrategy,
+  SAMPLING_KINDS,
+  samplingValue,
+  type SamplingKind,
+  type SamplingStrategy,
+} from '@/lib/videoSampling';
+
+interface SamplingOptionsProps {
+  strategy: SamplingStrategy;
+  onChange: (strategy: SamplingStrategy) => void;
+  disabled?: boolean;
+}
+
+/**
+ * SamplingOptions Component
+ *
+ * Picks how frames are sampled from uploaded videos: a strategy and its one
+ * numeric parameter.
+ */
+export default function SamplingOptions({ strategy, onChange, disabled }: SamplingOptionsProps) {
+  const kind = SAMPLING_KINDS.find(option => option.value === strategy.kind)!;
+
+  return (
+    <div className="glass rounded-2xl p-4 flex flex-wrap items-end gap-3">
+      <div className="space-y-2 flex-1 min-w-48">
+        <Label>Video sampling</Label>
+        <Select
+          value={strategy.kind}
+          onValueChange={(value) => {
+            const next = SAMPLING_KINDS.find(option => option.value === value)!;
+            onChange(createSamplingStrategy(value as SamplingKind, next.defaultValue));
+          }}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SAMPLING_KINDS.map(option => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2 w-36">
+        <Label htmlFor="sampling-value">N ({kind.unit})</Label>
+        <Input
+          id="sampling-value"
+          type="number"
+          min={0}
+          step={strategy.kind === 'interval' ? 0.1 : 1}
+          value={samplingValue(strategy)}
+          onChange={(e) => onChange(createSamplingStrategy(strategy.kind, Number(e.target.value)))}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { TARGET_FPS_OPTIONS, type SchedulerSettings } from '@/lib/frameScheduler';
+
+interface SchedulerPanelProps {
+  settings: SchedulerSettings;
+  onSettingsChange: (settings: SchedulerSettings) => void;
+}
+
+/**
+ * SchedulerPanel Component
+ *
+ * Pacing of the live loop for slower devices: a frame-rate cap, running the
+ * model on only some frames, shrinking its input when it falls behind, and
+ * pausing while the tab is in the background.
+ */
+export default function SchedulerPanel({ settings, onSettingsChange }: SchedulerPanelProps) {
+  return (
+    <div className="glass border border-accent/30 rounded-2xl overflow-hidden glow-cyan">
+      <div className="border-b border-border/30 px-4 py-3">
+        <h3 className="text-sm font-semibold text-accent">Frame Scheduling</h3>
+      </div>
+      <div className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="scheduler-fps" className="text-xs">Target frame rate</Label>
+          <Select
+            value={String(settings.targetFps)}
+            onValueChange={(value) => onSettingsChange({ ...settings, targetFps: Number(value) })}
+          >
+            <SelectTrigger id="scheduler-fps" size="sm" className="w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TARGET_FPS_OPTIONS.map(fps => (
+                <SelectItem key={fps} value={String(fps)}>
+                  {fps === 0 ? 'Unlimited' : `${fps} fps`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Detect on</Label>
+            <span className="text-xs text-muted-foreground">
+              {settings.detectEvery === 1 ? 'every frame' : `1 in ${settings.detectEvery} frames`}
+            </span>
+          </div>
+          <Slider
+            value={[settings.detectEvery]}
+            onValueChange={([detectEvery]) => onSettingsChange({ ...settings, detectEvery })}
+            min={1}
+            max={6}
+            step={1}
+          />
+          {settings.detectEvery > 1 && (
+            <p className="text-xs text-muted-foreground">Boxes on the other frames are predicted from each object's motion.</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor="scheduler-downscale" className="text-xs">Downscale when slow</Label>
+            <Switch
+              id="scheduler-downscale"
+              checked={settings.autoDownscale}
+              onCheckedChange={(autoDownscale) => onSettingsChange({ ...settings, autoDownscale })}
+            />
+          </div>
+          {settings.autoDownscale && (
+            <div className="flex items-center justify-between gap-3">
+              <Label htmlFor="scheduler-budget" className="text-xs text-muted-foreground">Latency budget (ms)</Label>
+              <Input
+                id="scheduler-budget"
+                type="number"
+                min={10}
+                max={2000}
+                value={settings.latencyBudgetMs}
+                onChange={(e) => onSettingsChange({
+                  ...settings,
+                  latencyBudgetMs: Math.min(Math.max(Number(e.target.value), 10), 2000),
+                })}
+                className="h-7 w-20 text-xs"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="scheduler-hidden" className="text-xs">Pause when tab is hidden</Label>
+          <Switch
+            id="scheduler-hidden"
+            checked={settings.pauseWhenHidden}
+            onCheckedChange={(pauseWhenHidden) => onSettingsChange({ ...settings, pauseWhenHidden })}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { useDetectionEngine } from '@/contexts/DetectionEngineContext';
+import type { BackendPreference } from '@/lib/backends';
+import { COCO_SSD_BASES, DEFAULT_COCO_SSD_BASE, type CocoSsdBase } from '@/lib/cocoSsdModel';
+import { listCustomModels, removeCustomModel, type CustomModelSpec } from '@/lib/customModel';
+import type { ModelChoice } from '@/lib/detectors';
+import { Settings } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import CustomModelDialog from './CustomModelDialog';
+import ModelCacheManager from './ModelCacheManager';
+
+const BACKEND_OPTIONS: { value: BackendPreference; label: string }[] = [
+  { value: 'auto', label: 'Auto (fastest)' },
+  { value: 'webgl', label: 'WebGL' },
+  { value: 'wasm', label: 'WebAssembly' },
+  { value: 'cpu', label: 'CPU' },
+];
+
+// Select items need string values, so model choices are encoded as "kind:value"
+function encodeModelChoice(choice: ModelChoice) {
+  return choice.kind === 'custom' ? `custom:${choice.id}` : `coco-ssd:${choice.base}`;
+}
+
+function decodeModelChoice(value: string): ModelChoice {
+  const separator = value.indexOf(':');
+  const [kind, rest] = [value.slice(0, separator), value.slice(separator + 1)];
+  return kind === 'custom'
+    ? { kind: 'custom', id: rest }
+    : { kind: 'coco-ssd', base: rest as CocoSsdBase };
+}
+
+/**
+ * SettingsPanel Component
+ *
+ * Slide-over panel for detection engine preferences. Changes are persisted by
+ * the engine and applied to the loaded model without a page reload; detection
+ * parameters apply to both live and batch detection.
+ */
+export default function SettingsPanel() {
+  const { engine, status } = useDetectionEngine();
+  const [backendPreference, setBackendPreference] = useState(engine.getBackendPreference());
+  const [modelChoice, setModelChoice] = useState(engine.getModel());
+  const [customModels, setCustomModels] = useState(listCustomModels);
+  const [detectOptions, setDetectOptions] = useState(engine.getDetectOptions());
+  const isBusy = status.state !== 'ready';
+
+  const handleBackendChange = async (value: string) => {
+    const preference = value as BackendPreference;
+    setBackendPreference(preference);
+    try {
+      await engine.setBackendPreference(preference);
+    } catch {
+      toast.error(`Unable to switch to the ${preference} backend`);
+    }
+  };
+
+  const selectModel = async (choice: ModelChoice) => {
+    setModelChoice(choice);
+    try {
+      await engine.setModel(choice);
+    } catch {
+      toast.error('Unable to load the selected model');
+    }
+  };
+
+  const handleCustomModelImported = (spec: CustomModelSpec) => {
+    setCustomModels(listCustomModels());
+    selectModel({ kind: 'custom', id: spec.id });
+  };
+
+  const handleCustomModelRemove = async (spec: CustomModelSpec) => {
+    await removeCustomModel(spec.id);
+    setCustomModels(listCustomModels());
+    if (modelChoice.kind === 'custom' && modelChoice.id === spec.id) {
+      selectModel({ kind: 'coco-ssd', base: DEFAULT_COCO_SSD_BASE });
+    }
+  };
+
+  const updateDetectOptions = (options: Partial<typeof detectOptions>) => {
+    engine.setDetectOptions(options);
+    setDetectOptions(engine.getDetectOptions());
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <button
+          className="w-9 h-9 rounded-lg border border-border/30 hover:bg-card/50 flex items-center justify-center transition-colors"
+          aria-label="Settings"
+        >
+          <Settings className="w-4 h-4 text-muted-foreground" />
+        </button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Settings</SheetTitle>
+          <SheetDescription>Choose how detection runs on this device.</SheetDescription>
+        </SheetHeader>
+
+        <div className="px-4 pb-6 space-y-6">
+          {/* Model */}
+          <section className="space-y-3">
+            <Label htmlFor="model-select">Model</Label>
+            <Select
+              value={encodeModelChoice(modelChoice)}
+              onValueChange={(value) => selectModel(decodeModelChoice(value))}
+              disabled={isBusy}
+            >
+              <SelectTrigger id="model-select" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COCO_SSD_BASES.map(option => (
+                  <SelectItem key={option.value} value={encodeModelChoice({ kind: 'coco-ssd', base: option.value })}>
+                    COCO-SSD · {option.label}
+                  </SelectItem>
+                ))}
+                {customModels.map(spec => (
+                  <SelectItem key={spec.id} value={encodeModelChoice({ kind: 'custom', id: spec.id })}>
+                    {spec.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <CustomModelDialog onImported={handleCustomModelImported} />
+          </section>
+
+          {/* Detection parameters */}
+          <section className="space-y-4">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Max boxes</Label>
+                <span className="text-xs font-semibold text-accent">{detectOptions.maxNumBoxes}</span>
+              </div>
+              <Slider
+                min={1}
+                max={100}
+                step={1}
+                value={[detectOptions.maxNumBoxes]}
+                onValueChange={([value]) => updateDetectOptions({ maxNumBoxes: value })}
+              />
+            </div>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Minimum score</Label>
+                <span className="text-xs font-semibold text-accent">{(detectOptions.minScore * 100).toFixed(0)}%</span>
+              </div>
+              <Slider
+                min={0.05}
+                max={0.95}
+                step={0.05}
+                value={[detectOptions.minScore]}
+                onValueChange={([value]) => updateDetectOptions({ minScore: value })}
+              />
+            </div>
+          </section>
+
+          {/* Backend */}
+          <section className="space-y-3">
+            <Label htmlFor="backend-select">TensorFlow.js backend</Label>
+            <Select value={backendPreference} onValueChange={handleBackendChange} disabled={isBusy}>
+              <SelectTrigger id="backend-select" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BACKEND_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {status.backend && (
+              <p className="text-xs text-muted-foreground">
+                Active: <span className="font-medium text-accent">{status.backend.backend}</span>
+              </p>
+            )}
+            {status.backend?.benchmarks && (
+              <div className="space-y-1">
+                {status.backend.benchmarks.map(result => (
+                  <div
+                    key={result.backend}
+                    className="flex items-center justify-between p-2 bg-card/50 rounded border border-border/30 text-xs"
+                  >
+                    <span>{result.backend}</span>
+                    <span className={result.backend === status.backend?.backend ? 'font-semibold text-accent' : 'text-muted-foreground'}>
+                      {result.msPerFrame === null ? result.error : `${result.msPerFrame.toFixed(1)} ms/frame`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+
+          {/* Stored models */}
+          <section className="space-y-3">
+            <Label>Stored models</Label>
+            <ModelCacheManager customModels={customModels} onRemoveCustomModel={handleCustomModelRemove} />
+          </section>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
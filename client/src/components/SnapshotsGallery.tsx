@@ -0,0 +1,105 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { downloadBlob } from '@/lib/download';
+import type { Snapshot } from '@/lib/storage';
+import { Download, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import BlobImage from './BlobImage';
+import StorageUsage from './StorageUsage';
+
+interface SnapshotsGalleryProps {
+  snapshots: Snapshot[];
+  onDelete: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+/**
+ * SnapshotsGallery Component
+ *
+ * Modal listing the stored snapshots with download and deletion, one at a
+ * time or in bulk, and the storage they take up.
+ */
+export default function SnapshotsGallery({ snapshots, onDelete, onClose }: SnapshotsGalleryProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const allSelected = snapshots.length > 0 && selectedIds.length === snapshots.length;
+
+  const deleteSnapshots = (ids: string[]) => {
+    onDelete(ids);
+    setSelectedIds(current => current.filter(id => !ids.includes(id)));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-card border border-border/30 rounded-2xl max-w-2xl w-full max-h-[80vh] overflow-y-auto">
+        <div className="sticky top-0 border-b border-border/30 px-6 py-4 bg-card/50 backdrop-blur-sm space-y-3 z-10">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="font-semibold">Snapshots ({snapshots.length})</h3>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelectedIds(allSelected ? [] : snapshots.map(s => s.id))}
+                disabled={snapshots.length === 0}
+              >
+                {allSelected ? 'Deselect all' : 'Select all'}
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => deleteSnapshots(selectedIds)}
+                disabled={selectedIds.length === 0}
+              >
+                <Trash2 />
+                Delete{selectedIds.length > 0 && ` (${selectedIds.length})`}
+              </Button>
+              <button onClick={onClose} className="text-muted-foreground hover:text-foreground ml-2">
+                ✕
+              </button>
+            </div>
+          </div>
+          <StorageUsage refreshKey={snapshots} />
+        </div>
+        {snapshots.length === 0 ? (
+          <p className="p-6 text-sm text-muted-foreground text-center">No snapshots yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-4 p-4">
+            {snapshots.map(snapshot => (
+              <div key={snapshot.id} className="relative group">
+                <BlobImage
+                  blob={snapshot.image}
+                  alt="snapshot"
+                  className="w-full aspect-video object-cover rounded-lg border border-border/30"
+                />
+                <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-lg flex items-center justify-center gap-2">
+                  <button
+                    onClick={() => downloadBlob(snapshot.image, `snapshot-${snapshot.id}.png`)}
+                    className="p-2 bg-accent rounded-lg hover:bg-accent/90"
+                  >
+                    <Download className="w-4 h-4 text-background" />
+                  </button>
+                  <button
+                    onClick={() => deleteSnapshots([snapshot.id])}
+                    className="p-2 bg-destructive rounded-lg hover:bg-destructive/90"
+                  >
+                    <Trash2 className="w-4 h-4 text-background" />
+                  </button>
+                </div>
+                <Checkbox
+                  checked={selectedIds.includes(snapshot.id)}
+                  onCheckedChange={(checked) => setSelectedIds(current =>
+                    checked === true ? [...current, snapshot.id] : current.filter(id => id !== snapshot.id)
+                  )}
+                  aria-label="Select snapshot"
+                  className="absolute top-2 left-2 bg-background/80"
+                />
+                <p className="text-xs text-muted-foreground mt-2 text-center">
+                  {snapshot.detections.length} objects · {snapshot.timestamp.toLocaleString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { Progress } from '@/components/ui/progress';
+import { formatBytes } from '@/lib/modelCache';
+import { getStorageUsage, isNearQuota, type StorageUsage as Usage } from '@/lib/storage';
+import { AlertTriangle } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+interface StorageUsageProps {
+  /** Changes whenever stored items are added or removed, to refresh the estimate */
+  refreshKey: unknown;
+}
+
+/**
+ * StorageUsage Component
+ *
+ * Shows how much of the browser's storage quota the app is using, with a
+ * warning once it is nearly full.
+ */
+export default function StorageUsage({ refreshKey }: StorageUsageProps) {
+  const [usage, setUsage] = useState<Usage | null>(null);
+
+  useEffect(() => {
+    getStorageUsage()
+      .then(setUsage)
+      .catch((error) => console.error('Error estimating storage usage:', error));
+  }, [refreshKey]);
+
+  if (!usage || usage.quota === 0) {
+    return null;
+  }
+
+  const nearQuota = isNearQuota(usage);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className={nearQuota ? 'text-destructive flex items-center gap-1' : undefined}>
+          {nearQuota && <AlertTriangle className="w-3 h-3" />}
+          {nearQuota ? 'Storage almost full' : 'Storage'}
+        </span>
+        <span className="tabular-nums">{formatBytes(usage.usage)} of {formatBytes(usage.quota)}</span>
+      </div>
+      <Progress
+        value={(usage.usage / usage.quota) * 100}
+        className={nearQuota ? 'h-1 [&>[data-slot=progress-indicator]]:bg-destructive' : 'h-1'}
+      />
+    </div>
+  );
+}
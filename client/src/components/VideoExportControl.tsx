@@ -0,0 +1,101 @@
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { formatBytes } from '@/lib/modelCache';
+import { renderAnnotatedVideo, supportsCanvasRecording, type VideoTimelineEntry } from '@/lib/videoExport';
+import { Download, Film, X } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+
+interface VideoExportControlProps {
+  name: string;
+  source: Blob;
+  timeline: VideoTimelineEntry[];
+}
+
+type ExportState =
+  | { status: 'idle' }
+  | { status: 'rendering'; progress: number }
+  | { status: 'done'; url: string; size: number };
+
+/**
+ * VideoExportControl Component
+ *
+ * Renders a processed video with its detections burned in, showing progress
+ * with a cancel button, then offers the WebM for download.
+ */
+export default function VideoExportControl({ name, source, timeline }: VideoExportControlProps) {
+  const [state, setState] = useState<ExportState>({ status: 'idle' });
+  const abortRef = useRef<AbortController | null>(null);
+  const urlRef = useRef<string | null>(null);
+
+  // Stop rendering and release the output when the file is removed
+  useEffect(() => {
+    return () => {
+      abortRef.current?.abort();
+      if (urlRef.current) URL.revokeObjectURL(urlRef.current);
+    };
+  }, []);
+
+  const startExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState({ status: 'rendering', progress: 0 });
+
+    try {
+      const blob = await renderAnnotatedVideo(
+        source,
+        timeline,
+        progress => setState({ status: 'rendering', progress }),
+        controller.signal
+      );
+      urlRef.current = URL.createObjectURL(blob);
+      setState({ status: 'done', url: urlRef.current, size: blob.size });
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error('Error exporting video:', error);
+        toast.error(`Unable to export ${name}`);
+      }
+      setState({ status: 'idle' });
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  if (!supportsCanvasRecording()) {
+    return null;
+  }
+
+  if (state.status === 'rendering') {
+    return (
+      <div className="flex items-center gap-2">
+        <Progress value={state.progress * 100} className="h-1.5" />
+        <span className="text-xs text-muted-foreground tabular-nums">{Math.round(state.progress * 100)}%</span>
+        <button
+          onClick={() => abortRef.current?.abort()}
+          className="text-muted-foreground hover:text-destructive shrink-0"
+          aria-label="Cancel export"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+    );
+  }
+
+  if (state.status === 'done') {
+    return (
+      <Button variant="outline" size="sm" className="w-full" asChild>
+        <a href={state.url} download={`${name.replace(/\.[^.]+$/, '')}-annotated.webm`}>
+          <Download />
+          Download ({formatBytes(state.size)})
+        </a>
+      </Button>
+    );
+  }
+
+  return (
+    <Button variant="outline" size="sm" className="w-full" onClick={startExport}>
+      <Film />
+      Export annotated video
+    </Button>
+  );
+}
@@ -0,0 +1,103 @@
+import { drawDetections } from '@/lib/detection';
+import { detectionsAt, type VideoTimelineEntry } from '@/lib/videoExport';
+import { useEffect, useRef, useState } from 'react';
+import VideoTimeline from './VideoTimeline';
+
+interface VideoResultViewerProps {
+  source: Blob;
+  timeline: VideoTimelineEntry[];
+  /** Draw the detections over the video; off for videos that have them burned in */
+  overlay?: boolean;
+  /** Used when the file reports no duration, as MediaRecorder output does */
+  fallbackDurationMs?: number;
+}
+
+/**
+ * VideoResultViewer Component
+ *
+ * Plays a processed video with its sampled detections drawn on top, and a
+ * timeline below for jumping straight to the sampled frames.
+ */
+export default function VideoResultViewer({ source, timeline, overlay = true, fallbackDurationMs = 0 }: VideoResultViewerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [durationMs, setDurationMs] = useState(0);
+  const [currentTimeMs, setCurrentTimeMs] = useState(0);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(source);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [source]);
+
+  const drawOverlay = () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!video || !canvas || !ctx) return;
+
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (overlay) {
+      drawDetections(ctx, detectionsAt(timeline, video.currentTime * 1000));
+    }
+    setCurrentTimeMs(video.currentTime * 1000);
+  };
+
+  // Redraw on every frame while playing
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    let active = true;
+    let handle = 0;
+    const next = () => {
+      if (!active) return;
+      if (!video.paused) drawOverlay();
+      handle = requestAnimationFrame(next);
+    };
+    handle = requestAnimationFrame(next);
+    return () => {
+      active = false;
+      cancelAnimationFrame(handle);
+    };
+  }, [url, timeline]);
+
+  // Seek to the sampled frame closest to the requested time
+  const seek = (timeMs: number) => {
+    const video = videoRef.current;
+    if (!video || timeline.length === 0) return;
+    const closest = timeline.reduce((best, entry) =>
+      Math.abs(entry.timeMs - timeMs) < Math.abs(best.timeMs - timeMs) ? entry : best
+    );
+    video.pause();
+    video.currentTime = closest.timeMs / 1000;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        {url && (
+          <video
+            ref={videoRef}
+            src={url}
+            controls
+            playsInline
+            muted
+            className="w-full rounded-lg border border-border/30 bg-black"
+            onLoadedMetadata={(e) => {
+              const { duration } = e.currentTarget;
+              setDurationMs(Number.isFinite(duration) ? duration * 1000 : fallbackDurationMs);
+            }}
+            onLoadedData={drawOverlay}
+            onSeeked={drawOverlay}
+          />
+        )}
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+      </div>
+      <VideoTimeline timeline={timeline} durationMs={durationMs} currentTimeMs={currentTimeMs} onSeek={seek} />
+    </div>
+  );
+}
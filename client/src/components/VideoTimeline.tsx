@@ -0,0 +1,101 @@
+import type { VideoTimelineEntry } from '@/lib/videoExport';
+import { useRef } from 'react';
+
+interface VideoTimelineProps {
+  timeline: VideoTimelineEntry[];
+  durationMs: number;
+  currentTimeMs: number;
+  onSeek: (timeMs: number) => void;
+}
+
+const ROW_HEIGHT = 14;
+
+function formatMediaTime(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/**
+ * VideoTimeline Component
+ *
+ * Class-presence strip chart for a processed video: one row per class, with
+ * a bar wherever a sampled frame contains that class. Click or drag to seek.
+ */
+export default function VideoTimeline({ timeline, durationMs, currentTimeMs, onSeek }: VideoTimelineProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const classes = Array.from(new Set(timeline.flatMap(entry => entry.detections.map(d => d.class)))).sort();
+  const duration = Math.max(durationMs, timeline[timeline.length - 1]?.timeMs ?? 0, 1);
+
+  const seekToPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = chartRef.current!.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    onSeek(fraction * duration);
+  };
+
+  // Each sample covers the time until the next one
+  const segments = timeline.map((entry, i) => ({
+    entry,
+    start: entry.timeMs / duration,
+    width: ((timeline[i + 1]?.timeMs ?? duration) - entry.timeMs) / duration,
+  }));
+
+  if (timeline.length === 0) {
+    return <p className="text-xs text-muted-foreground">No frames were sampled from this video.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        {/* Class labels */}
+        <div className="shrink-0 text-xs text-muted-foreground">
+          {classes.map(cls => (
+            <div key={cls} style={{ height: ROW_HEIGHT }} className="leading-[14px] truncate max-w-24">
+              {cls}
+            </div>
+          ))}
+        </div>
+
+        {/* Strips */}
+        <div
+          ref={chartRef}
+          className="relative flex-1 cursor-pointer touch-none bg-card/50 rounded"
+          style={{ height: Math.max(classes.length, 1) * ROW_HEIGHT }}
+          onPointerDown={(e) => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            seekToPointer(e);
+          }}
+          onPointerMove={(e) => {
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) seekToPointer(e);
+          }}
+        >
+          {classes.map((cls, row) =>
+            segments
+              .filter(({ entry }) => entry.detections.some(d => d.class === cls))
+              .map(({ entry, start, width }) => (
+                <div
+                  key={`${cls}-${entry.timeMs}`}
+                  className="absolute bg-accent/70"
+                  style={{
+                    left: `${start * 100}%`,
+                    width: `${width * 100}%`,
+                    top: row * ROW_HEIGHT + 2,
+                    height: ROW_HEIGHT - 4,
+                  }}
+                  title={`${cls} × ${entry.detections.filter(d => d.class === cls).length} at ${formatMediaTime(entry.timeMs)}`}
+                />
+              ))
+          )}
+          {/* Playhead */}
+          <div
+            className="absolute top-0 bottom-0 w-0.5 bg-foreground pointer-events-none"
+            style={{ left: `${(currentTimeMs / duration) * 100}%` }}
+          />
+        </div>
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+        <span>{formatMediaTime(currentTimeMs)}</span>
+        <span>{formatMediaTime(duration)}</span>
+      </div>
+    </div>
+  );
+}
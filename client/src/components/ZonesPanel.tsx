@@ -0,0 +1,130 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ZoneDraft } from '@/hooks/useZoneDraft';
+import { formatDwell, ZONE_FILTERS, type Zone, type ZoneFilter, type ZoneOccupancy, type ZoneStats } from '@/lib/zones';
+import { Check, Hexagon, RotateCcw, Trash2, X } from 'lucide-react';
+
+interface ZonesPanelProps {
+  zones: Zone[];
+  onZonesChange: (zones: Zone[]) => void;
+  draft: ZoneDraft;
+  canDraw: boolean;
+  /** Live stats include dwell times; batch images only have occupancy */
+  stats?: (ZoneOccupancy | ZoneStats)[];
+  onResetStats?: () => void;
+}
+
+/**
+ * ZonesPanel Component
+ *
+ * Zone editor and per-zone statistics, shared by the live view and batch
+ * images. Polygons are drawn by clicking points on the image; this panel
+ * starts and finishes the drawing and edits the resulting zones.
+ */
+export default function ZonesPanel({ zones, onZonesChange, draft, canDraw, stats = [], onResetStats }: ZonesPanelProps) {
+  const updateZone = (id: string, changes: Partial<Zone>) => {
+    onZonesChange(zones.map(zone => (zone.id === id ? { ...zone, ...changes } : zone)));
+  };
+
+  return (
+    <div className="glass border border-accent/30 rounded-2xl overflow-hidden glow-cyan">
+      <div className="border-b border-border/30 px-4 py-3 flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-accent">Zones</h3>
+        <div className="flex gap-1">
+          <Button
+            variant={draft.isDrawing ? 'default' : 'ghost'}
+            size="icon-sm"
+            onClick={draft.isDrawing ? draft.cancel : draft.start}
+            disabled={!canDraw}
+            aria-label="Draw zone"
+            title={canDraw ? 'Click points on the image to draw a zone' : 'Nothing to draw on yet'}
+          >
+            <Hexagon />
+          </Button>
+          {onResetStats && (
+            <Button variant="ghost" size="icon-sm" onClick={onResetStats} aria-label="Reset zone statistics">
+              <RotateCcw />
+            </Button>
+          )}
+        </div>
+      </div>
+      <div className="p-4 space-y-3">
+        {draft.isDrawing && (
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-accent">
+              Click to add points ({draft.points.length}), click the first point to close.
+            </p>
+            <div className="flex gap-1 shrink-0">
+              <Button size="icon-sm" variant="ghost" onClick={draft.finish} disabled={draft.points.length < 3} aria-label="Finish zone">
+                <Check />
+              </Button>
+              <Button size="icon-sm" variant="ghost" onClick={draft.cancel} aria-label="Cancel zone">
+                <X />
+              </Button>
+            </div>
+          </div>
+        )}
+        {zones.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Draw a zone to count objects in an area or to limit detection to it.
+          </p>
+        ) : (
+          zones.map(zone => {
+            const zoneStats = stats.find(s => s.zoneId === zone.id);
+            return (
+              <div key={zone.id} className="space-y-2 p-2 bg-card/50 rounded border border-border/30">
+                <div className="flex items-center gap-2">
+                  <Input
+                    value={zone.name}
+                    onChange={(e) => updateZone(zone.id, { name: e.target.value })}
+                    className="h-7 text-xs"
+                    aria-label="Zone name"
+                  />
+                  <button
+                    onClick={() => onZonesChange(zones.filter(z => z.id !== zone.id))}
+                    className="text-muted-foreground hover:text-destructive shrink-0"
+                    aria-label={`Remove ${zone.name}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+                <Select value={zone.filter} onValueChange={(value) => updateZone(zone.id, { filter: value as ZoneFilter })}>
+                  <SelectTrigger size="sm" className="w-full text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ZONE_FILTERS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {zoneStats && (
+                  <div className="text-xs space-y-1">
+                    <p>
+                      <span className="text-accent font-semibold">{zoneStats.occupancy}</span>
+                      <span className="text-muted-foreground"> inside</span>
+                      {'visits' in zoneStats && (
+                        <span className="text-muted-foreground">
+                          {' · '}{zoneStats.visits} visits · avg {formatDwell(zoneStats.averageDwellMs)}
+                          {zoneStats.occupancy > 0 && ` · longest now ${formatDwell(zoneStats.currentDwellMs)}`}
+                        </span>
+                      )}
+                    </p>
+                    {Object.keys(zoneStats.byClass).length > 0 && (
+                      <p className="text-muted-foreground">
+                        {Object.entries(zoneStats.byClass).map(([cls, count]) => `${cls} ${count}`).join(' · ')}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+import React, { createContext, useCallback, useContext, useEffect, useSyncExternalStore } from "react";
+import type { Detection, DetectionSource, DetectOptions } from "@/lib/detection";
+import { detectionEngine, type DetectionEngine, type EngineStatus } from "@/lib/detectionEngine";
+
+interface DetectionEngineContextType {
+  engine: DetectionEngine;
+  status: EngineStatus;
+  isReady: boolean;
+  detect: (source: DetectionSource, options?: DetectOptions) => Promise<Detection[]>;
+}
+
+const DetectionEngineContext = createContext<DetectionEngineContextType | undefined>(undefined);
+
+interface DetectionEngineProviderProps {
+  children: React.ReactNode;
+  engine?: DetectionEngine;
+}
+
+export function DetectionEngineProvider({
+  children,
+  engine = detectionEngine,
+}: DetectionEngineProviderProps) {
+  const subscribe = useCallback(
+    (listener: () => void) => engine.subscribe(listener),
+    [engine]
+  );
+  const status = useSyncExternalStore(subscribe, () => engine.getStatus());
+
+  useEffect(() => {
+    engine.load().catch(() => {
+      // Failure is surfaced through the engine status
+    });
+  }, [engine]);
+
+  const detect = useCallback(
+    (source: DetectionSource, options?: DetectOptions) => engine.detect(source, options),
+    [engine]
+  );
+
+  return (
+    <DetectionEngineContext.Provider
+      value={{ engine, status, isReady: status.state === "ready", detect }}
+    >
+      {children}
+    </DetectionEngineContext.Provider>
+  );
+}
+
+export function useDetectionEngine() {
+  const context = useContext(DetectionEngineContext);
+  if (!context) {
+    throw new Error("useDetectionEngine must be used within DetectionEngineProvider");
+  }
+  return context;
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Object URL for a Blob, revoked when the Blob changes or the component
+ * unmounts.
+ */
+export function useObjectUrl(blob: Blob | null | undefined) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url;
+}
@@ -0,0 +1,51 @@
+import type { Point } from "@/lib/geometry";
+import { useRef, useState } from "react";
+
+// Clicking this close to the first point (normalized units) closes the polygon
+const CLOSE_DISTANCE = 0.03;
+
+/**
+ * State for a polygon being drawn point by point. `pointsRef` mirrors the
+ * draft for render loops that outlive the render they were started in.
+ */
+export function useZoneDraft(onComplete: (points: Point[]) => void) {
+  const [points, setPoints] = useState<Point[] | null>(null);
+  const pointsRef = useRef<Point[] | null>(null);
+
+  const update = (next: Point[] | null) => {
+    pointsRef.current = next;
+    setPoints(next);
+  };
+
+  const finish = () => {
+    const draft = pointsRef.current;
+    update(null);
+    if (draft && draft.length >= 3) {
+      onComplete(draft);
+    }
+  };
+
+  const addPoint = (point: Point) => {
+    const draft = pointsRef.current;
+    if (!draft) return;
+
+    const first = draft[0];
+    if (draft.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) < CLOSE_DISTANCE) {
+      finish();
+    } else {
+      update([...draft, point]);
+    }
+  };
+
+  return {
+    isDrawing: points !== null,
+    points: points ?? [],
+    pointsRef,
+    start: () => update([]),
+    cancel: () => update(null),
+    addPoint,
+    finish,
+  };
+}
+
+export type ZoneDraft = ReturnType<typeof useZoneDraft>;
@@ -0,0 +1,86 @@
+import { toast } from 'sonner';
+import type { AlertEvent, AlertRule } from './alertRules';
+
+/**
+ * Side effects of a fired alert rule. Failures are logged rather than thrown
+ * so one broken action (e.g. an unreachable webhook) never stops the others
+ * or the detection loop.
+ */
+
+export interface AlertActionContext {
+  captureSnapshot: () => void;
+  captureClip: () => void;
+}
+
+let audioContext: AudioContext | null = null;
+
+// Short two-tone beep, synthesized so no audio asset is needed
+function playAlertSound() {
+  audioContext ??= new AudioContext();
+  const ctx = audioContext;
+  [880, 660].forEach((frequency, i) => {
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    const start = ctx.currentTime + i * 0.18;
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.15);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.15);
+  });
+}
+
+export async function requestNotificationPermission() {
+  if (!('Notification' in window)) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+}
+
+async function callWebhook(url: string, rule: AlertRule, event: AlertEvent) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      rule: rule.name,
+      message: event.message,
+      timestamp: event.timestamp.toISOString(),
+    }),
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook responded with ${response.status}`);
+  }
+}
+
+export function runAlertActions(rule: AlertRule, event: AlertEvent, context: AlertActionContext) {
+  for (const action of rule.actions) {
+    try {
+      switch (action) {
+        case 'toast':
+          toast.warning(rule.name, { description: event.message });
+          break;
+        case 'notification':
+          if ('Notification' in window && Notification.permission === 'granted') {
+            new Notification(rule.name, { body: event.message, icon: '/icon.png', tag: rule.id });
+          }
+          break;
+        case 'sound':
+          playAlertSound();
+          break;
+        case 'snapshot':
+          context.captureSnapshot();
+          break;
+        case 'clip':
+          context.captureClip();
+          break;
+        case 'webhook':
+          if (rule.webhookUrl) {
+            callWebhook(rule.webhookUrl, rule, event).catch(error => console.error('Alert webhook failed:', error));
+          }
+          break;
+      }
+    } catch (error) {
+      console.error(`Alert action "${action}" failed:`, error);
+    }
+  }
+}
@@ -0,0 +1,214 @@
+import type { Detection } from './detection';
+import { loadSetting, saveSetting } from './settings';
+import { isInZone, type Zone } from './zones';
+
+/**
+ * Rules-based alerting for the live view. Rules are evaluated against every
+ * frame of tracked detections and produce alert events; carrying out the
+ * actions (toasts, notifications, snapshots...) is left to the caller.
+ */
+
+export type CountOperator = '>' | '>=' | '<' | '<=' | '=';
+
+export type RuleCondition =
+  // "person count > 3 for 10 s", "no person for 5 min"
+  | {
+      type: 'count';
+      /** Class to count; empty counts every class */
+      class: string;
+      /** Only count inside this zone; whole frame when unset */
+      zoneId?: string;
+      operator: CountOperator;
+      value: number;
+      durationSec: number;
+    }
+  // "dog enters zone Kitchen"
+  | {
+      type: 'zone';
+      event: 'enter' | 'exit';
+      class: string;
+      zoneId: string;
+    };
+
+export type AlertAction = 'toast' | 'notification' | 'sound' | 'snapshot' | 'clip' | 'webhook';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: RuleCondition;
+  actions: AlertAction[];
+  webhookUrl?: string;
+  /** Minimum time between two alerts from this rule */
+  cooldownSec: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+  timestamp: Date;
+}
+
+export interface RuleFrame {
+  /** Tracked detections, in pixels of a `width`×`height` frame */
+  detections: Detection[];
+  width: number;
+  height: number;
+  zones: Zone[];
+  /** Monotonic time in ms, e.g. performance.now() */
+  now: number;
+}
+
+export const ALERT_ACTIONS: { value: AlertAction; label: string }[] = [
+  { value: 'toast', label: 'On-screen alert' },
+  { value: 'notification', label: 'Browser notification' },
+  { value: 'sound', label: 'Sound' },
+  { value: 'snapshot', label: 'Snapshot' },
+  { value: 'clip', label: 'Clip with pre-roll' },
+  { value: 'webhook', label: 'Webhook' },
+];
+
+export const COUNT_OPERATORS: CountOperator[] = ['>', '>=', '<', '<=', '='];
+
+const RULES_SETTING = 'alertRules';
+
+export function loadAlertRules() {
+  return loadSetting<AlertRule[]>(RULES_SETTING, []);
+}
+
+export function saveAlertRules(rules: AlertRule[]) {
+  saveSetting(RULES_SETTING, rules);
+}
+
+function compare(count: number, operator: CountOperator, value: number) {
+  switch (operator) {
+    case '>': return count > value;
+    case '>=': return count >= value;
+    case '<': return count < value;
+    case '<=': return count <= value;
+    case '=': return count === value;
+  }
+}
+
+function matchesClass(detection: Detection, cls: string) {
+  return cls === '' || detection.class === cls;
+}
+
+function formatDuration(seconds: number) {
+  return seconds >= 60 && seconds % 60 === 0 ? `${seconds / 60} min` : `${seconds} s`;
+}
+
+// Human-readable summary, e.g. "person count > 3 in Kitchen for 10 s"
+export function describeCondition(condition: RuleCondition, zones: Zone[]) {
+  const subject = condition.class || 'object';
+  const zoneName = zones.find(zone => zone.id === condition.zoneId)?.name ?? 'deleted zone';
+
+  if (condition.type === 'zone') {
+    return `${subject} ${condition.event === 'enter' ? 'enters' : 'leaves'} ${zoneName}`;
+  }
+
+  const where = condition.zoneId ? ` in ${zoneName}` : '';
+  const count = condition.operator === '=' && condition.value === 0
+    ? `no ${subject}${where}`
+    : `${subject} count${where} ${condition.operator} ${condition.value}`;
+  return condition.durationSec > 0 ? `${count} for ${formatDuration(condition.durationSec)}` : count;
+}
+
+interface RuleState {
+  /** When a count condition started holding */
+  since: number | null;
+  /** Count conditions fire once per stretch of time they hold */
+  fired: boolean;
+  /** Tracks inside the zone on the previous frame */
+  inside: Set<number>;
+  lastFiredAt: number;
+}
+
+export class RuleEngine {
+  private rules: AlertRule[];
+  private states = new Map<string, RuleState>();
+
+  constructor(rules: AlertRule[]) {
+    this.rules = rules;
+  }
+
+  setRules(rules: AlertRule[]) {
+    this.rules = rules;
+    // Deleted or disabled rules start over if they come back
+    const active = new Set(rules.filter(rule => rule.enabled).map(rule => rule.id));
+    Array.from(this.states.keys())
+      .filter(id => !active.has(id))
+      .forEach(id => this.states.delete(id));
+  }
+
+  evaluate(frame: RuleFrame): AlertEvent[] {
+    const events: AlertEvent[] = [];
+
+    for (const rule of this.rules) {
+      if (!rule.enabled) continue;
+
+      const state = this.states.get(rule.id) ?? { since: null, fired: false, inside: new Set(), lastFiredAt: -Infinity };
+      this.states.set(rule.id, state);
+
+      const message = this.check(rule, state, frame);
+      if (message && frame.now - state.lastFiredAt >= rule.cooldownSec * 1000) {
+        // Latched only when an event goes out, so a condition the cooldown held back fires once it ends
+        state.fired = true;
+        state.lastFiredAt = frame.now;
+        events.push({
+          id: crypto.randomUUID(),
+          ruleId: rule.id,
+          ruleName: rule.name,
+          message,
+          timestamp: new Date(),
+        });
+      }
+    }
+    return events;
+  }
+
+  // Forget per-track state, e.g. when the tracker restarts its IDs
+  forgetTracks() {
+    this.states.clear();
+  }
+
+  // Returns the alert message when the rule's condition triggers on this frame
+  private check(rule: AlertRule, state: RuleState, frame: RuleFrame): string | null {
+    const { condition } = rule;
+    const zone = frame.zones.find(z => z.id === condition.zoneId);
+    if (condition.zoneId && !zone) {
+      return null;
+    }
+
+    const matching = frame.detections.filter(detection =>
+      matchesClass(detection, condition.class) &&
+      (!zone || isInZone(detection, zone, frame.width, frame.height))
+    );
+
+    if (condition.type === 'zone') {
+      const inside = new Set(matching.filter(d => d.trackId !== undefined).map(d => d.trackId!));
+      const changed = condition.event === 'enter'
+        ? Array.from(inside).filter(id => !state.inside.has(id))
+        : Array.from(state.inside).filter(id => !inside.has(id));
+      state.inside = inside;
+      if (changed.length === 0) return null;
+
+      const names = changed.map(id => `${condition.class || 'object'} #${id}`).join(', ');
+      return `${names} ${condition.event === 'enter' ? 'entered' : 'left'} ${zone!.name}`;
+    }
+
+    if (!compare(matching.length, condition.operator, condition.value)) {
+      state.since = null;
+      state.fired = false;
+      return null;
+    }
+
+    state.since ??= frame.now;
+    if (state.fired || frame.now - state.since < condition.durationSec * 1000) {
+      return null;
+    }
+    return describeCondition(condition, frame.zones);
+  }
+}
@@ -0,0 +1,31 @@
+import { drawDetections, type Detection } from './detection';
+import { canvasToBlob } from './storage';
+import { computeZoneOccupancy, drawZones, filterDetectionsByZones, type Zone } from './zones';
+
+/**
+ * Rendering of stored images with their detections burned in, shared by the
+ * batch results and the history view.
+ */
+
+export function loadImage(blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = url;
+  }).finally(() => URL.revokeObjectURL(url));
+}
+
+// Draw an image with its zones and the detections the zones let through, as PNG
+export function renderAnnotatedImage(img: HTMLImageElement, detections: Detection[], zones: Zone[] = []) {
+  const canvas = document.createElement('canvas');
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext('2d')!;
+  const visible = filterDetectionsByZones(detections, zones, img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  drawZones(ctx, zones, computeZoneOccupancy(visible, zones, img.width, img.height));
+  drawDetections(ctx, visible);
+  return canvasToBlob(canvas);
+}
@@ -0,0 +1,128 @@
+import * as tf from '@tensorflow/tfjs';
+import { setWasmPaths } from '@tensorflow/tfjs-backend-wasm';
+import wasmUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url';
+import wasmSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url';
+import wasmThreadedSimdUrl from '@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url';
+
+/**
+ * TF.js backend selection. Runs wherever inference runs (worker or main
+ * thread), since every thread has its own TF.js engine.
+ */
+
+export type BackendName = 'webgl' | 'wasm' | 'cpu';
+export type BackendPreference = BackendName | 'auto';
+
+export const BACKEND_NAMES: BackendName[] = ['webgl', 'wasm', 'cpu'];
+
+export interface BackendBenchmark {
+  backend: BackendName;
+  /** Median time of one detect() call, or null when the backend failed */
+  msPerFrame: number | null;
+  error?: string;
+}
+
+/** `tf.memory()` of the thread running inference */
+export interface TensorMemory {
+  numTensors: number;
+  numBytes: number;
+  /** WebGL only */
+  numBytesInGPU?: number;
+}
+
+export interface BackendSelection {
+  preference: BackendPreference;
+  backend: BackendName;
+  /** Present when the backend was picked by benchmarking */
+  benchmarks?: BackendBenchmark[];
+}
+
+const BENCHMARK_RUNS = 3;
+
+setWasmPaths({
+  'tfjs-backend-wasm.wasm': wasmUrl,
+  'tfjs-backend-wasm-simd.wasm': wasmSimdUrl,
+  'tfjs-backend-wasm-threaded-simd.wasm': wasmThreadedSimdUrl,
+});
+
+export function currentBackend() {
+  return tf.getBackend() as BackendName;
+}
+
+export function tensorMemory(): TensorMemory {
+  const { numTensors, numBytes, numBytesInGPU } = tf.memory() as tf.MemoryInfo & { numBytesInGPU?: number };
+  return { numTensors, numBytes, numBytesInGPU };
+}
+
+// Switch to a backend, returning false instead of throwing when it is unavailable
+export async function activateBackend(backend: BackendName) {
+  try {
+    const activated = await tf.setBackend(backend);
+    await tf.ready();
+    return activated;
+  } catch (error) {
+    console.warn(`TF.js backend "${backend}" is unavailable:`, error);
+    return false;
+  }
+}
+
+// Time `run` on every backend that activates, after one warm-up call each
+export async function benchmarkBackends(
+  run: () => Promise<unknown>,
+  backends: BackendName[] = BACKEND_NAMES
+): Promise<BackendBenchmark[]> {
+  const results: BackendBenchmark[] = [];
+
+  for (const backend of backends) {
+    if (!(await activateBackend(backend))) {
+      results.push({ backend, msPerFrame: null, error: 'Unavailable' });
+      continue;
+    }
+
+    try {
+      await run();
+      const timings: number[] = [];
+      for (let i = 0; i < BENCHMARK_RUNS; i++) {
+        const start = performance.now();
+        await run();
+        timings.push(performance.now() - start);
+      }
+      timings.sort((a, b) => a - b);
+      results.push({ backend, msPerFrame: timings[Math.floor(timings.length / 2)] });
+    } catch (error) {
+      results.push({
+        backend,
+        msPerFrame: null,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Apply a backend preference. Explicit choices fall back to whatever TF.js
+ * picks by default when unavailable; "auto" benchmarks `run` on each backend
+ * and keeps the fastest.
+ */
+export async function selectBackend(
+  preference: BackendPreference,
+  run: () => Promise<unknown>
+): Promise<BackendSelection> {
+  if (preference !== 'auto') {
+    if (!(await activateBackend(preference))) {
+      await tf.ready();
+    }
+    return { preference, backend: currentBackend() };
+  }
+
+  const benchmarks = await benchmarkBackends(run);
+  const fastest = benchmarks
+    .filter(result => result.msPerFrame !== null)
+    .sort((a, b) => a.msPerFrame! - b.msPerFrame!)[0];
+
+  if (fastest) {
+    await activateBackend(fastest.backend);
+  }
+  return { preference, backend: currentBackend(), benchmarks };
+}
@@ -0,0 +1,216 @@
+import * as tf from '@tensorflow/tfjs';
+import { loadImage } from './annotate';
+import { activateBackend, currentBackend, type BackendName } from './backends';
+import { COCO_SSD_BASES } from './cocoSsdModel';
+import { listCustomModels } from './customModel';
+import { describeModel, loadDetector, type ModelSpec } from './detectors';
+import { loadSetting, saveSetting } from './settings';
+
+/**
+ * Model × backend benchmark over a fixed image set. Each combination gets its
+ * own detector loaded on the main thread and disposed afterwards, so runs do
+ * not share weights or warm caches with each other or with the live engine.
+ */
+
+export interface BenchmarkImage {
+  name: string;
+  blob: Blob;
+}
+
+export interface BenchmarkSettings {
+  /** See `benchmarkModelKey` */
+  models: string[];
+  backends: BackendName[];
+  /** Timed passes over the image set */
+  passes: number;
+  includeSampleImages: boolean;
+}
+
+export interface BenchmarkMetrics {
+  loadMs: number;
+  /** First inference, which compiles shaders and allocates buffers */
+  warmupMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  meanMs: number;
+  /** Images per second over the timed passes, run back to back */
+  fps: number;
+  /** `tf.memory()` after the timed passes, less what was allocated before loading */
+  tensors: number;
+  bytes: number;
+  /** Tensors the timed passes left behind; anything above zero is a leak */
+  leakedTensors: number;
+  samples: number;
+}
+
+export interface BenchmarkResult {
+  model: string;
+  modelKey: string;
+  backend: BackendName;
+  metrics?: BenchmarkMetrics;
+  error?: string;
+}
+
+export const SAMPLE_IMAGE_URLS = ['/images/hero-bg.png', '/images/detection-pattern.png', '/images/icon.png'];
+
+export const DEFAULT_BENCHMARK_SETTINGS: BenchmarkSettings = {
+  models: ['coco-ssd:lite_mobilenet_v2'],
+  backends: ['webgl', 'wasm'],
+  passes: 3,
+  includeSampleImages: true,
+};
+
+const BENCHMARK_SETTING = 'benchmark';
+
+export function loadBenchmarkSettings() {
+  return loadSetting<BenchmarkSettings>(BENCHMARK_SETTING, DEFAULT_BENCHMARK_SETTINGS);
+}
+
+export function saveBenchmarkSettings(settings: BenchmarkSettings) {
+  saveSetting(BENCHMARK_SETTING, settings);
+}
+
+export function benchmarkModelKey(model: ModelSpec) {
+  return model.kind === 'custom' ? `custom:${model.spec.id}` : `coco-ssd:${model.base}`;
+}
+
+// Every model that can be benchmarked: the COCO-SSD bases and imported custom models
+export function benchmarkModels(): ModelSpec[] {
+  return [
+    ...COCO_SSD_BASES.map(({ value }): ModelSpec => ({ kind: 'coco-ssd', base: value })),
+    ...listCustomModels().map((spec): ModelSpec => ({ kind: 'custom', spec })),
+  ];
+}
+
+export async function loadSampleImages(): Promise<BenchmarkImage[]> {
+  return Promise.all(SAMPLE_IMAGE_URLS.map(async url => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Unable to load ${url}: ${response.status}`);
+    return { name: url.split('/').pop()!, blob: await response.blob() };
+  }));
+}
+
+// Nearest-rank percentile of ascending `sorted`
+export function percentile(sorted: number[], p: number) {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1))];
+}
+
+function abortError() {
+  return new DOMException('Benchmark was cancelled', 'AbortError');
+}
+
+async function measure(
+  model: ModelSpec,
+  images: HTMLImageElement[],
+  passes: number,
+  signal?: AbortSignal
+): Promise<BenchmarkMetrics> {
+  const baseline = tf.memory();
+  let start = performance.now();
+  const { detector } = await loadDetector(model, currentBackend());
+  const loadMs = performance.now() - start;
+
+  try {
+    start = performance.now();
+    await detector.detect(images[0]);
+    const warmupMs = performance.now() - start;
+    const afterWarmup = tf.memory().numTensors;
+
+    const timings: number[] = [];
+    const runStart = performance.now();
+    for (let pass = 0; pass < passes; pass++) {
+      for (const image of images) {
+        if (signal?.aborted) throw abortError();
+        start = performance.now();
+        await detector.detect(image);
+        timings.push(performance.now() - start);
+      }
+    }
+    const totalMs = performance.now() - runStart;
+    const memory = tf.memory();
+    timings.sort((a, b) => a - b);
+
+    return {
+      loadMs,
+      warmupMs,
+      p50Ms: percentile(timings, 0.5),
+      p95Ms: percentile(timings, 0.95),
+      meanMs: timings.reduce((sum, ms) => sum + ms, 0) / timings.length,
+      fps: timings.length / (totalMs / 1000),
+      tensors: memory.numTensors - baseline.numTensors,
+      bytes: memory.numBytes - baseline.numBytes,
+      leakedTensors: memory.numTensors - afterWarmup,
+      samples: timings.length,
+    };
+  } finally {
+    detector.dispose();
+  }
+}
+
+/**
+ * Run every model on every backend, reporting progress between 0 and 1.
+ * A combination that fails (an unavailable backend, a model that will not
+ * load) is recorded with its error and the run moves on; aborting `signal`
+ * rejects with an AbortError. The backend active beforehand is restored.
+ */
+export async function runBenchmark(
+  images: BenchmarkImage[],
+  models: ModelSpec[],
+  backends: BackendName[],
+  passes: number,
+  options: { onProgress?: (message: string, fraction: number) => void; signal?: AbortSignal } = {}
+): Promise<BenchmarkResult[]> {
+  const { onProgress, signal } = options;
+  if (images.length === 0) throw new Error('No images to benchmark with');
+
+  await tf.ready();
+  const originalBackend = currentBackend();
+  const decoded = await Promise.all(images.map(image => loadImage(image.blob)));
+  const results: BenchmarkResult[] = [];
+  const total = models.length * backends.length;
+
+  try {
+    for (const model of models) {
+      for (const backend of backends) {
+        if (signal?.aborted) throw abortError();
+        const result: BenchmarkResult = { model: describeModel(model), modelKey: benchmarkModelKey(model), backend };
+        onProgress?.(`${result.model} on ${backend}...`, results.length / total);
+
+        if (!(await activateBackend(backend))) {
+          results.push({ ...result, error: 'Backend unavailable' });
+          continue;
+        }
+        try {
+          results.push({ ...result, metrics: await measure(model, decoded, passes, signal) });
+        } catch (error) {
+          if (signal?.aborted) throw abortError();
+          console.error(`Benchmark of ${result.model} on ${backend} failed:`, error);
+          results.push({ ...result, error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+    onProgress?.('Done', 1);
+    return results;
+  } finally {
+    await activateBackend(originalBackend);
+  }
+}
+
+/** One row per model and backend */
+export function benchmarkCsv(results: BenchmarkResult[]) {
+  const quote = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const headers = [
+    'Model', 'Backend', 'Load (ms)', 'Warm-up (ms)', 'p50 (ms)', 'p95 (ms)', 'Mean (ms)', 'FPS',
+    'Tensors', 'Tensor Bytes', 'Leaked Tensors', 'Samples', 'Error',
+  ];
+  const rows = results.map(({ model, backend, metrics: m, error }) => [
+    quote(model),
+    backend,
+    ...(m
+      ? [m.loadMs, m.warmupMs, m.p50Ms, m.p95Ms, m.meanMs, m.fps].map(value => value.toFixed(2))
+        .concat([m.tensors, m.bytes, m.leakedTensors, m.samples].map(String))
+      : Array(10).fill('')),
+    quote(error ?? ''),
+  ].join(','));
+  return [headers.join(','), ...rows].join('\n');
+}
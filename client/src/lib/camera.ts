@@ -0,0 +1,107 @@
+import type { Detection } from './detection';
+import { loadSetting, saveSetting } from './settings';
+
+/**
+ * Camera selection for the live view: a specific device or a facing mode,
+ * resolution and frame-rate presets, and mirroring. A mirrored view flips the
+ * frame when it is drawn and flips the model's boxes to match, so everything
+ * downstream (tracking, zones, lines, snapshots) works in what the user sees.
+ */
+
+export type FacingMode = 'user' | 'environment';
+
+export type ResolutionPreset = '480p' | '720p' | '1080p';
+
+export interface CameraSettings {
+  /** Preferred device; when null, the facing mode picks the camera */
+  deviceId: string | null;
+  facingMode: FacingMode;
+  resolution: ResolutionPreset;
+  frameRate: number;
+  mirror: boolean;
+}
+
+export const RESOLUTION_PRESETS: { value: ResolutionPreset; label: string; width: number; height: number }[] = [
+  { value: '480p', label: '640 × 480', width: 640, height: 480 },
+  { value: '720p', label: '1280 × 720', width: 1280, height: 720 },
+  { value: '1080p', label: '1920 × 1080', width: 1920, height: 1080 },
+];
+
+export const FRAME_RATE_PRESETS = [15, 24, 30, 60];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  facingMode: 'user',
+  resolution: '720p',
+  frameRate: 30,
+  mirror: false,
+};
+
+const CAMERA_SETTING = 'camera';
+
+export function loadCameraSettings() {
+  return loadSetting<CameraSettings>(CAMERA_SETTING, DEFAULT_CAMERA_SETTINGS);
+}
+
+export function saveCameraSettings(settings: CameraSettings) {
+  saveSetting(CAMERA_SETTING, settings);
+}
+
+// Device labels stay empty until the user has granted camera access once
+export async function listCameras() {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(device => device.kind === 'videoinput' && device.deviceId);
+}
+
+function videoConstraints(settings: CameraSettings, useDevice: boolean): MediaTrackConstraints {
+  const resolution = RESOLUTION_PRESETS.find(preset => preset.value === settings.resolution) ?? RESOLUTION_PRESETS[1];
+  return {
+    ...(useDevice && settings.deviceId
+      ? { deviceId: { exact: settings.deviceId } }
+      : { facingMode: settings.facingMode }),
+    width: { ideal: resolution.width },
+    height: { ideal: resolution.height },
+    frameRate: { ideal: settings.frameRate },
+  };
+}
+
+/**
+ * Open the camera described by `settings`. A remembered device that is no
+ * longer plugged in falls back to the facing mode rather than failing.
+ */
+export async function openCamera(settings: CameraSettings) {
+  try {
+    return await navigator.mediaDevices.getUserMedia({ video: videoConstraints(settings, true) });
+  } catch (error) {
+    const missingDevice = error instanceof DOMException
+      && (error.name === 'OverconstrainedError' || error.name === 'NotFoundError');
+    if (!settings.deviceId || !missingDevice) throw error;
+    console.warn('Preferred camera is unavailable, falling back to facing mode:', error);
+    return navigator.mediaDevices.getUserMedia({ video: videoConstraints(settings, false) });
+  }
+}
+
+// Id of the device actually serving `stream`
+export function streamDeviceId(stream: MediaStream) {
+  return stream.getVideoTracks()[0]?.getSettings().deviceId ?? null;
+}
+
+/** Draw `source` filling the canvas, flipped horizontally when mirrored */
+export function drawVideoFrame(ctx: CanvasRenderingContext2D, source: CanvasImageSource, mirror: boolean) {
+  if (!mirror) {
+    ctx.drawImage(source, 0, 0);
+    return;
+  }
+  ctx.save();
+  ctx.setTransform(-1, 0, 0, 1, ctx.canvas.width, 0);
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+}
+
+// Boxes found on the unflipped frame, moved to where they appear in a mirrored view `width` wide
+export function mirrorDetections(detections: Detection[], width: number): Detection[] {
+  return detections.map(d => {
+    const [x, y, w, h] = d.bbox;
+    return { ...d, bbox: [width - x - w, y, w, h] };
+  });
+}
@@ -0,0 +1,190 @@
+import { formatDetectionName, type Detection } from './detection';
+import { recordStream, type Recording } from './recordings';
+import { loadSetting, saveSetting } from './settings';
+
+/**
+ * Event-triggered clips with pre-roll. The annotated live view is kept as a
+ * rolling buffer of downscaled JPEG frames; when a trigger fires, the frames
+ * from `preRollSec` before it to `postRollSec` after it are re-encoded to a
+ * WebM clip. Buffering compressed stills rather than running a recorder
+ * continuously is what makes the seconds before the event recoverable.
+ */
+
+export interface ClipSettings {
+  /** A new track of any of these classes triggers a clip; empty disables class triggers */
+  classes: string[];
+  preRollSec: number;
+  postRollSec: number;
+}
+
+export const DEFAULT_CLIP_SETTINGS: ClipSettings = { classes: [], preRollSec: 5, postRollSec: 5 };
+
+const CLIP_SETTING = 'clipCapture';
+// Buffered frames are throttled and shrunk to keep the buffer to a few MB
+const CLIP_FRAME_RATE = 10;
+const CLIP_MAX_WIDTH = 640;
+const CLIP_JPEG_QUALITY = 0.7;
+
+export function loadClipSettings() {
+  return loadSetting<ClipSettings>(CLIP_SETTING, DEFAULT_CLIP_SETTINGS);
+}
+
+export function saveClipSettings(settings: ClipSettings) {
+  saveSetting(CLIP_SETTING, settings);
+}
+
+interface BufferedFrame {
+  timeMs: number;
+  image: Promise<Blob | null>;
+  detections: Detection[];
+}
+
+interface PendingClip {
+  reason: string;
+  detections: Detection[];
+  createdAt: Date;
+  triggeredAt: number;
+  endsAt: number;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Replays the buffered frames in real time, since MediaRecorder timestamps by wall clock
+async function encodeFrames(frames: BufferedFrame[]) {
+  const images = await Promise.all(frames.map(frame => frame.image));
+  const first = images.find(image => image !== null);
+  if (!first) {
+    throw new Error('No frames were buffered');
+  }
+
+  const canvas = document.createElement('canvas');
+  const firstBitmap = await createImageBitmap(first);
+  canvas.width = firstBitmap.width;
+  canvas.height = firstBitmap.height;
+  firstBitmap.close();
+  const ctx = canvas.getContext('2d')!;
+  const stream = canvas.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const stop = recordStream(stream);
+
+  for (let i = 0; i < frames.length; i++) {
+    const image = images[i];
+    if (image) {
+      const bitmap = await createImageBitmap(image);
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+      bitmap.close();
+      track.requestFrame();
+    }
+    const next = frames[i + 1];
+    await delay(next ? next.timeMs - frames[i].timeMs : 1000 / CLIP_FRAME_RATE);
+  }
+
+  return stop();
+}
+
+export class ClipCapture {
+  private frames: BufferedFrame[] = [];
+  private lastFrameAt = -Infinity;
+  private pending: PendingClip | null = null;
+  private seenTracks = new Set<number>();
+  private scratch: HTMLCanvasElement | null = null;
+
+  constructor(
+    private settings: ClipSettings,
+    private onClip: (clip: Recording) => void,
+    private onError: (error: unknown) => void = error => console.error('Error saving clip:', error)
+  ) {}
+
+  setSettings(settings: ClipSettings) {
+    this.settings = settings;
+  }
+
+  /**
+   * Buffer the annotated canvas as it is now and check the class triggers.
+   * Call once per processed frame, after drawing.
+   */
+  addFrame(canvas: HTMLCanvasElement, detections: Detection[], now: number) {
+    const appeared = detections.filter(d =>
+      d.trackId !== undefined && !this.seenTracks.has(d.trackId) && this.settings.classes.includes(d.class)
+    );
+    detections.forEach(d => d.trackId !== undefined && this.seenTracks.add(d.trackId));
+    if (appeared.length > 0) {
+      this.trigger(`${appeared.map(formatDetectionName).join(', ')} appeared`, appeared, now);
+    }
+
+    if (now - this.lastFrameAt >= 1000 / CLIP_FRAME_RATE) {
+      this.lastFrameAt = now;
+      this.frames.push({ timeMs: now, image: this.encodeFrame(canvas), detections });
+    }
+
+    // Keep the pre-roll, and everything a pending clip still needs
+    const keepFrom = (this.pending?.triggeredAt ?? now) - this.settings.preRollSec * 1000;
+    while (this.frames.length > 0 && this.frames[0].timeMs < keepFrom) {
+      this.frames.shift();
+    }
+
+    if (this.pending && now >= this.pending.endsAt) {
+      this.finish();
+    }
+  }
+
+  /**
+   * Save a clip around `now`. Ignored while a clip is already being captured,
+   * so a burst of triggers produces one clip.
+   */
+  trigger(reason: string, detections: Detection[], now: number) {
+    if (this.pending) return;
+    this.pending = {
+      reason,
+      detections: [...detections],
+      createdAt: new Date(),
+      triggeredAt: now,
+      endsAt: now + this.settings.postRollSec * 1000,
+    };
+  }
+
+  /** Save any clip in progress with the frames buffered so far, then clear the buffer */
+  stop() {
+    if (this.pending) {
+      this.finish();
+    }
+    this.frames = [];
+    this.lastFrameAt = -Infinity;
+    this.seenTracks.clear();
+  }
+
+  private encodeFrame(canvas: HTMLCanvasElement) {
+    // toBlob copies the pixels synchronously, so one scratch canvas serves every frame
+    const scratch = this.scratch ??= document.createElement('canvas');
+    const scale = Math.min(1, CLIP_MAX_WIDTH / canvas.width);
+    scratch.width = Math.round(canvas.width * scale);
+    scratch.height = Math.round(canvas.height * scale);
+    scratch.getContext('2d')!.drawImage(canvas, 0, 0, scratch.width, scratch.height);
+    return new Promise<Blob | null>(resolve => scratch.toBlob(resolve, 'image/jpeg', CLIP_JPEG_QUALITY));
+  }
+
+  private finish() {
+    const pending = this.pending!;
+    this.pending = null;
+    const startsAt = pending.triggeredAt - this.settings.preRollSec * 1000;
+    const frames = this.frames.filter(frame => frame.timeMs >= startsAt && frame.timeMs <= pending.endsAt);
+    if (frames.length === 0) return;
+    const clipStart = frames[0].timeMs;
+
+    encodeFrames(frames)
+      .then(annotated => this.onClip({
+        id: crypto.randomUUID(),
+        name: `Clip: ${pending.reason}`,
+        createdAt: pending.createdAt,
+        durationMs: frames[frames.length - 1].timeMs - clipStart + 1000 / CLIP_FRAME_RATE,
+        annotated,
+        frames: frames.map(frame => ({ timeMs: frame.timeMs - clipStart, detections: frame.detections })),
+        trigger: {
+          reason: pending.reason,
+          timeMs: pending.triggeredAt - clipStart,
+          detections: pending.detections,
+        },
+      }))
+      .catch(this.onError);
+  }
+}
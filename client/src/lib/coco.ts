@@ -0,0 +1,103 @@
+import type { DatasetImage } from './dataset';
+import { createZip } from './zip';
+
+/**
+ * COCO object-detection export, for reusing detections as pre-labels. Category
+ * ids follow the COCO label ids COCO-SSD was trained with, so the output
+ * lines up with the original dataset; classes from custom models that are not
+ * COCO labels are numbered after them.
+ */
+
+export interface CocoCategory {
+  id: number;
+  name: string;
+  supercategory: string;
+}
+
+// COCO-SSD's label map: [COCO category id, display name]
+const COCO_SSD_LABELS: [number, string][] = [
+  [1, 'person'], [2, 'bicycle'], [3, 'car'], [4, 'motorcycle'], [5, 'airplane'], [6, 'bus'],
+  [7, 'train'], [8, 'truck'], [9, 'boat'], [10, 'traffic light'], [11, 'fire hydrant'],
+  [13, 'stop sign'], [14, 'parking meter'], [15, 'bench'], [16, 'bird'], [17, 'cat'], [18, 'dog'],
+  [19, 'horse'], [20, 'sheep'], [21, 'cow'], [22, 'elephant'], [23, 'bear'], [24, 'zebra'],
+  [25, 'giraffe'], [27, 'backpack'], [28, 'umbrella'], [31, 'handbag'], [32, 'tie'],
+  [33, 'suitcase'], [34, 'frisbee'], [35, 'skis'], [36, 'snowboard'], [37, 'sports ball'],
+  [38, 'kite'], [39, 'baseball bat'], [40, 'baseball glove'], [41, 'skateboard'],
+  [42, 'surfboard'], [43, 'tennis racket'], [44, 'bottle'], [46, 'wine glass'], [47, 'cup'],
+  [48, 'fork'], [49, 'knife'], [50, 'spoon'], [51, 'bowl'], [52, 'banana'], [53, 'apple'],
+  [54, 'sandwich'], [55, 'orange'], [56, 'broccoli'], [57, 'carrot'], [58, 'hot dog'],
+  [59, 'pizza'], [60, 'donut'], [61, 'cake'], [62, 'chair'], [63, 'couch'], [64, 'potted plant'],
+  [65, 'bed'], [67, 'dining table'], [70, 'toilet'], [72, 'tv'], [73, 'laptop'], [74, 'mouse'],
+  [75, 'remote'], [76, 'keyboard'], [77, 'cell phone'], [78, 'microwave'], [79, 'oven'],
+  [80, 'toaster'], [81, 'sink'], [82, 'refrigerator'], [84, 'book'], [85, 'clock'], [86, 'vase'],
+  [87, 'scissors'], [88, 'teddy bear'], [89, 'hair drier'], [90, 'toothbrush'],
+];
+
+export const COCO_SSD_CLASS_IDS = new Map(COCO_SSD_LABELS.map(([id, name]) => [name, id]));
+
+const FIRST_CUSTOM_CATEGORY_ID = 91;
+
+/**
+ * Categories for `classNames`, COCO-SSD labels first in id order, then any
+ * other classes alphabetically.
+ */
+export function cocoCategories(classNames: Iterable<string>): CocoCategory[] {
+  const classes = new Set(classNames);
+  const known = COCO_SSD_LABELS
+    .filter(([, name]) => classes.has(name))
+    .map(([id, name]) => ({ id, name, supercategory: 'object' }));
+  const custom = Array.from(classes)
+    .filter(name => !COCO_SSD_CLASS_IDS.has(name))
+    .sort()
+    .map((name, i) => ({ id: FIRST_CUSTOM_CATEGORY_ID + i, name, supercategory: 'custom' }));
+  return [...known, ...custom];
+}
+
+export function datasetClasses(images: DatasetImage[]) {
+  return cocoCategories(images.flatMap(image => image.detections.map(d => d.class))).map(category => category.name);
+}
+
+/** COCO dataset with a category for each of `classes`, which must cover every detection's class */
+export function buildCocoDataset(images: DatasetImage[], classes: string[], description = 'Detect AI export') {
+  const categories = cocoCategories(classes);
+  const categoryIds = new Map(categories.map(category => [category.name, category.id]));
+  let annotationId = 1;
+
+  return {
+    info: {
+      description,
+      version: '1.0',
+      year: new Date().getFullYear(),
+      date_created: new Date().toISOString(),
+    },
+    images: images.map((image, i) => ({
+      id: i + 1,
+      file_name: image.fileName,
+      width: image.width,
+      height: image.height,
+    })),
+    annotations: images.flatMap((image, i) => image.detections.map(d => {
+      const [x, y, width, height] = d.bbox.map(value => Math.round(value * 100) / 100);
+      return {
+        id: annotationId++,
+        image_id: i + 1,
+        category_id: categoryIds.get(d.class)!,
+        bbox: [x, y, width, height],
+        area: Math.round(width * height * 100) / 100,
+        iscrowd: 0,
+        segmentation: [],
+        score: Math.round(d.score * 10000) / 10000,
+        ...(d.trackId !== undefined && { track_id: d.trackId }),
+      };
+    })),
+    categories,
+  };
+}
+
+/** `annotations.json` with the images under `images/`, as one ZIP */
+export function createCocoZip(images: DatasetImage[], classes: string[], description?: string) {
+  return createZip([
+    { name: 'annotations.json', data: JSON.stringify(buildCocoDataset(images, classes, description), null, 2) },
+    ...images.map(image => ({ name: `images/${image.fileName}`, data: image.image })),
+  ]);
+}
@@ -0,0 +1,87 @@
+import * as tf from '@tensorflow/tfjs';
+import * as cocoSsd from '@tensorflow-models/coco-ssd';
+import type { Detection, DetectionSource, DetectOptions } from './detection';
+import type { Detector } from './detectors';
+import { downloadToCache, isModelCached, modelCacheUrl } from './modelCache';
+
+/**
+ * COCO-SSD detector shared by the main-thread runtime and the detection worker.
+ * Nothing in here touches the DOM so it can run in either context.
+ */
+
+export type CocoSsdBase = cocoSsd.ObjectDetectionBaseModel;
+
+export const COCO_SSD_BASES: { value: CocoSsdBase; label: string }[] = [
+  { value: 'lite_mobilenet_v2', label: 'Lite MobileNet v2 (fastest)' },
+  { value: 'mobilenet_v2', label: 'MobileNet v2' },
+  { value: 'mobilenet_v1', label: 'MobileNet v1 (most accurate)' },
+];
+
+export const DEFAULT_COCO_SSD_BASE: CocoSsdBase = 'lite_mobilenet_v2';
+
+const MODEL_HOST = 'https://storage.googleapis.com/tfjs-models/savedmodel/';
+
+// Same location the coco-ssd package downloads from
+function cocoSsdHttpUrl(base: CocoSsdBase) {
+  const prefix = base === 'lite_mobilenet_v2' ? `ssd${base}` : `ssd_${base}`;
+  return `${MODEL_HOST}${prefix}/model.json`;
+}
+
+// Cache entries are keyed by architecture and package version so upgrades refetch
+export function cocoSsdCacheUrl(base: CocoSsdBase) {
+  return modelCacheUrl(`coco-ssd-${base}-${cocoSsd.version}`);
+}
+
+export class CocoSsdDetector implements Detector {
+  private constructor(
+    private model: cocoSsd.ObjectDetection,
+    readonly fromCache: boolean
+  ) {}
+
+  /**
+   * Load from the IndexedDB cache, downloading into it first on a cache miss.
+   * Falls back to loading straight from the network when IndexedDB is
+   * unavailable.
+   */
+  static async load(base: CocoSsdBase, onDownloadProgress?: (fraction: number) => void) {
+    const cacheUrl = cocoSsdCacheUrl(base);
+    if (await isModelCached(cacheUrl)) {
+      return new CocoSsdDetector(await cocoSsd.load({ base, modelUrl: cacheUrl }), true);
+    }
+
+    try {
+      await downloadToCache(cocoSsdHttpUrl(base), cacheUrl, onDownloadProgress);
+      return new CocoSsdDetector(await cocoSsd.load({ base, modelUrl: cacheUrl }), false);
+    } catch (error) {
+      console.warn('Unable to cache COCO-SSD model, loading from network:', error);
+      return new CocoSsdDetector(await cocoSsd.load({ base }), false);
+    }
+  }
+
+  async detect(source: DetectionSource, options: DetectOptions = {}): Promise<Detection[]> {
+    let predictions: cocoSsd.DetectedObject[];
+
+    if (source instanceof ImageBitmap) {
+      // COCO-SSD does not accept ImageBitmap directly, so go through a tensor
+      const pixels = tf.browser.fromPixels(source);
+      try {
+        predictions = await this.model.detect(pixels, options.maxNumBoxes, options.minScore);
+      } finally {
+        pixels.dispose();
+        source.close();
+      }
+    } else {
+      predictions = await this.model.detect(source, options.maxNumBoxes, options.minScore);
+    }
+
+    return predictions.map(p => ({
+      class: p.class,
+      score: p.score,
+      bbox: p.bbox as [number, number, number, number],
+    }));
+  }
+
+  dispose() {
+    this.model.dispose();
+  }
+}
@@ -0,0 +1,244 @@
+import * as tf from '@tensorflow/tfjs';
+import { DEFAULT_DETECT_OPTIONS, type Detection, type DetectionSource, type DetectOptions } from './detection';
+import type { Detector } from './detectors';
+import { modelCacheUrl } from './modelCache';
+import { loadSetting, saveSetting } from './settings';
+
+/**
+ * Custom TF.js detection models imported from local files.
+ *
+ * Imported models are written to IndexedDB through TF.js' `indexeddb://`
+ * handler, so they survive reloads and can be loaded from the worker as well
+ * as the main thread. Their metadata (labels and output signature) is kept in
+ * settings alongside.
+ */
+
+export type CustomModelFormat = 'graph-model' | 'layers-model';
+
+// How float inputs are scaled; int32 inputs always receive raw 0-255 pixels
+export type InputRange = '0-255' | '0-1' | '-1-1';
+
+/**
+ * Names of the output tensors to read. Boxes are expected as normalized
+ * [ymin, xmin, ymax, xmax]. When `classes` is omitted, `scores` must hold one
+ * score per class for every box and the best class is picked per box.
+ */
+export interface OutputSignature {
+  boxes: string;
+  scores: string;
+  classes?: string;
+}
+
+export interface CustomModelSpec {
+  id: string;
+  name: string;
+  format: CustomModelFormat;
+  labels: string[];
+  inputSize: { width: number; height: number };
+  inputRange: InputRange;
+  outputs: OutputSignature;
+  createdAt: string;
+}
+
+export type CustomModelDraft = Omit<CustomModelSpec, 'id' | 'format' | 'createdAt'>;
+
+const CUSTOM_MODELS_SETTING = 'customModels';
+const IOU_THRESHOLD = 0.5;
+
+export function customModelUrl(id: string) {
+  return modelCacheUrl(`custom-${id}`);
+}
+
+export function listCustomModels() {
+  return loadSetting<CustomModelSpec[]>(CUSTOM_MODELS_SETTING, []);
+}
+
+export function getCustomModel(id: string) {
+  return listCustomModels().find(spec => spec.id === id);
+}
+
+// Parse a labels file: plain text with one label per line, a JSON array, or a JSON id -> name map
+export function parseLabels(text: string): string[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    return (JSON.parse(trimmed) as unknown[]).map(String);
+  }
+  if (trimmed.startsWith('{')) {
+    const map = JSON.parse(trimmed) as Record<string, string>;
+    const labels: string[] = [];
+    Object.entries(map).forEach(([id, name]) => {
+      labels[Number(id)] = String(name);
+    });
+    return Array.from(labels, label => label ?? '');
+  }
+  return trimmed.split(/\r?\n/).map(line => line.trim());
+}
+
+/**
+ * Store a model from its model.json and weight shard files in IndexedDB and
+ * register its metadata. The model is not instantiated here.
+ */
+export async function importCustomModel(files: File[], draft: CustomModelDraft): Promise<CustomModelSpec> {
+  const modelJson = files.find(file => file.name.endsWith('.json'));
+  if (!modelJson) {
+    throw new Error('Select the model.json file together with its .bin weight files');
+  }
+  const weightFiles = files.filter(file => file !== modelJson);
+
+  const artifacts = await tf.io.browserFiles([modelJson, ...weightFiles]).load!();
+  const format: CustomModelFormat = artifacts.format === 'layers-model' ? 'layers-model' : 'graph-model';
+
+  const spec: CustomModelSpec = {
+    ...draft,
+    id: Date.now().toString(),
+    format,
+    createdAt: new Date().toISOString(),
+  };
+
+  const [saveHandler] = tf.io.getSaveHandlers(customModelUrl(spec.id));
+  await saveHandler.save!(artifacts);
+
+  saveSetting(CUSTOM_MODELS_SETTING, [...listCustomModels(), spec]);
+  return spec;
+}
+
+export async function removeCustomModel(id: string) {
+  saveSetting(CUSTOM_MODELS_SETTING, listCustomModels().filter(spec => spec.id !== id));
+  try {
+    await tf.io.removeModel(customModelUrl(id));
+  } catch (error) {
+    console.warn('Unable to remove stored custom model:', error);
+  }
+}
+
+// Pixel size of a source; media elements report their intrinsic size separately
+function sourceSize(source: DetectionSource): [number, number] {
+  if ('videoWidth' in source) {
+    return [source.videoWidth, source.videoHeight];
+  }
+  if ('naturalWidth' in source) {
+    return [source.naturalWidth, source.naturalHeight];
+  }
+  return [source.width, source.height];
+}
+
+export class CustomDetector implements Detector {
+  // Custom models only ever live in IndexedDB
+  readonly fromCache = true;
+
+  private constructor(
+    private spec: CustomModelSpec,
+    private model: tf.GraphModel | tf.LayersModel
+  ) {}
+
+  static async load(spec: CustomModelSpec) {
+    const url = customModelUrl(spec.id);
+    const model = spec.format === 'layers-model'
+      ? await tf.loadLayersModel(url)
+      : await tf.loadGraphModel(url);
+    return new CustomDetector(spec, model);
+  }
+
+  async detect(source: DetectionSource, options: DetectOptions = {}): Promise<Detection[]> {
+    const { maxNumBoxes, minScore } = { ...DEFAULT_DETECT_OPTIONS, ...options };
+    const [sourceWidth, sourceHeight] = sourceSize(source);
+
+    const input = tf.tidy(() => this.preprocess(source));
+    if (source instanceof ImageBitmap) {
+      source.close();
+    }
+
+    let outputs: tf.Tensor[] = [];
+    try {
+      outputs = await this.execute(input);
+      const [boxesTensor, scoresTensor, classesTensor] = outputs;
+
+      const boxes = tf.tidy(() => boxesTensor.reshape([-1, 4]) as tf.Tensor2D);
+      const { scores, classes } = tf.tidy(() => {
+        if (classesTensor) {
+          return {
+            scores: scoresTensor.reshape([-1]) as tf.Tensor1D,
+            classes: classesTensor.reshape([-1]).cast('int32') as tf.Tensor1D,
+          };
+        }
+        const perClass = scoresTensor.reshape([boxes.shape[0], -1]);
+        return {
+          scores: perClass.max(1) as tf.Tensor1D,
+          classes: perClass.argMax(1) as tf.Tensor1D,
+        };
+      });
+
+      const indexTensor = await tf.image.nonMaxSuppressionAsync(
+        boxes, scores, maxNumBoxes, IOU_THRESHOLD, minScore
+      );
+      const [indexes, boxData, scoreData, classData] = await Promise.all([
+        indexTensor.data(), boxes.data(), scores.data(), classes.data(),
+      ]);
+      tf.dispose([indexTensor, boxes, scores, classes]);
+
+      return Array.from(indexes, index => {
+        const [ymin, xmin, ymax, xmax] = Array.from(boxData.slice(index * 4, index * 4 + 4));
+        const classIndex = classData[index];
+        return {
+          class: this.spec.labels[classIndex] || `class ${classIndex}`,
+          score: scoreData[index],
+          bbox: [
+            xmin * sourceWidth,
+            ymin * sourceHeight,
+            (xmax - xmin) * sourceWidth,
+            (ymax - ymin) * sourceHeight,
+          ] as [number, number, number, number],
+        };
+      });
+    } finally {
+      tf.dispose([input, ...outputs]);
+    }
+  }
+
+  dispose() {
+    this.model.dispose();
+  }
+
+  private preprocess(source: DetectionSource) {
+    const { width, height } = this.spec.inputSize;
+    const pixels = tf.browser.fromPixels(source);
+    const resized = tf.image.resizeBilinear(pixels, [height, width]);
+
+    if (this.inputDtype() === 'int32') {
+      return resized.cast('int32').expandDims(0);
+    }
+    switch (this.spec.inputRange) {
+      case '0-1':
+        return resized.div(255).expandDims(0);
+      case '-1-1':
+        return resized.div(127.5).sub(1).expandDims(0);
+      default:
+        return resized.expandDims(0);
+    }
+  }
+
+  private inputDtype() {
+    return this.model instanceof tf.GraphModel ? this.model.inputs[0]?.dtype : 'float32';
+  }
+
+  // Run the model and return [boxes, scores, classes?] in signature order
+  private async execute(input: tf.Tensor): Promise<tf.Tensor[]> {
+    const { boxes, scores, classes } = this.spec.outputs;
+    const names = classes ? [boxes, scores, classes] : [boxes, scores];
+
+    if (this.model instanceof tf.GraphModel) {
+      const result = await this.model.executeAsync(input, names);
+      return Array.isArray(result) ? result : [result];
+    }
+
+    const predictions = this.model.predict(input);
+    const tensors = Array.isArray(predictions) ? predictions : [predictions];
+    const outputNames = this.model.outputNames;
+    const selected = names.map((name, index) => {
+      const position = outputNames.indexOf(name);
+      return tensors[position === -1 ? index : position];
+    });
+    tf.dispose(tensors.filter(tensor => !selected.includes(tensor)));
+    return selected;
+  }
+}
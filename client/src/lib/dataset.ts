@@ -0,0 +1,94 @@
+import type { Detection } from './detection';
+import { canvasToBlob, type Snapshot } from './storage';
+import type { VideoTimelineEntry } from './videoExport';
+import { openVideo, seekTo } from './videoSampling';
+
+/**
+ * Images with their detections, as handed to the dataset exporters (COCO,
+ * VOC, YOLO). Exporters want the unannotated picture, so snapshots use their
+ * raw frame where one was kept and videos are decoded frame by frame.
+ */
+
+export interface DatasetImage {
+  /** Unique file name inside the export */
+  fileName: string;
+  width: number;
+  height: number;
+  image: Blob;
+  /** In pixels of the image */
+  detections: Detection[];
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+
+// "000012-my_photo.jpg"; the index keeps names unique across sources
+export function datasetFileName(index: number, name: string, type: string) {
+  const base = name.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_').slice(0, 60) || 'image';
+  return `${String(index + 1).padStart(6, '0')}-${base}.${EXTENSIONS[type] ?? 'png'}`;
+}
+
+// File name without its extension, for the label files that sit next to an image
+export function datasetBaseName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, '');
+}
+
+export async function imageSize(blob: Blob) {
+  const bitmap = await createImageBitmap(blob);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+}
+
+export async function snapshotImages(snapshots: Snapshot[], startIndex = 0): Promise<DatasetImage[]> {
+  return Promise.all(snapshots.map(async (snapshot, i) => {
+    const image = snapshot.sourceImage ?? snapshot.image;
+    return {
+      fileName: datasetFileName(startIndex + i, `snapshot-${snapshot.timestamp.getTime()}`, image.type),
+      ...(await imageSize(image)),
+      image,
+      detections: snapshot.detections,
+    };
+  }));
+}
+
+/**
+ * One JPEG per sampled frame of a video, decoded at the frame's media time,
+ * with that frame's detections.
+ */
+export async function videoFrameImages(
+  name: string,
+  source: Blob,
+  timeline: VideoTimelineEntry[],
+  startIndex = 0
+): Promise<DatasetImage[]> {
+  const { video, close } = await openVideo(source);
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d')!;
+    const images: DatasetImage[] = [];
+
+    for (const entry of timeline) {
+      await seekTo(video, entry.timeMs / 1000);
+      ctx.drawImage(video, 0, 0);
+      const image = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+      images.push({
+        fileName: datasetFileName(startIndex + images.length, `${name}-${Math.round(entry.timeMs)}ms`, image.type),
+        width: canvas.width,
+        height: canvas.height,
+        image,
+        detections: entry.detections,
+      });
+    }
+    return images;
+  } finally {
+    close();
+  }
+}
@@ -0,0 +1,64 @@
+import { cocoCategories, createCocoZip, datasetClasses } from './coco';
+import type { DatasetImage } from './dataset';
+import { loadSetting, saveSetting } from './settings';
+import { createVocZip } from './voc';
+import { createYoloZip } from './yolo';
+
+/**
+ * Dataset export in the format of choice, with the class filter and
+ * confidence cutoff applied at export time so the stored results stay whole.
+ */
+
+export type DatasetFormat = 'coco' | 'voc' | 'yolo';
+
+export interface DatasetExportOptions {
+  format: DatasetFormat;
+  /** Classes to keep; every class when empty */
+  classes: string[];
+  /** Detections below this confidence (0–1) are left out */
+  minScore: number;
+}
+
+export const DATASET_FORMATS: { value: DatasetFormat; label: string; description: string }[] = [
+  { value: 'coco', label: 'COCO JSON', description: 'annotations.json with images/' },
+  { value: 'voc', label: 'Pascal VOC XML', description: 'Annotations/*.xml with JPEGImages/' },
+  { value: 'yolo', label: 'YOLO txt', description: 'labels/*.txt with images/, classes.txt and data.yaml' },
+];
+
+export const DEFAULT_DATASET_EXPORT: DatasetExportOptions = { format: 'coco', classes: [], minScore: 0.5 };
+
+const DATASET_EXPORT_SETTING = 'datasetExport';
+
+export function loadDatasetExportOptions() {
+  return loadSetting<DatasetExportOptions>(DATASET_EXPORT_SETTING, DEFAULT_DATASET_EXPORT);
+}
+
+export function saveDatasetExportOptions(options: DatasetExportOptions) {
+  saveSetting(DATASET_EXPORT_SETTING, options);
+}
+
+// Images keep their place even when no box survives, as negatives are useful training data
+export function filterDatasetImages(images: DatasetImage[], options: DatasetExportOptions): DatasetImage[] {
+  return images.map(image => ({
+    ...image,
+    detections: image.detections.filter(d =>
+      d.score >= options.minScore && (options.classes.length === 0 || options.classes.includes(d.class))
+    ),
+  }));
+}
+
+/** ZIP of `images` in the chosen format, after filtering */
+export function createDatasetZip(images: DatasetImage[], options: DatasetExportOptions, description?: string) {
+  const filtered = filterDatasetImages(images, options);
+  // One label set for every format. With a class filter every chosen class gets
+  // an index, present or not, so indices match between exports made with the same filter
+  const classes = options.classes.length > 0
+    ? cocoCategories(options.classes).map(category => category.name)
+    : datasetClasses(filtered);
+
+  switch (options.format) {
+    case 'coco': return createCocoZip(filtered, classes, description);
+    case 'voc': return createVocZip(filtered, classes);
+    case 'yolo': return createYoloZip(filtered, classes);
+  }
+}
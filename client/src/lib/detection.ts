@@ -0,0 +1,65 @@
+/**
+ * Shared detection types and canvas helpers used by the live and batch views.
+ */
+
+export interface Detection {
+  class: string;
+  score: number;
+  bbox: [number, number, number, number];
+  /** Stable ID assigned by the tracker in the live view */
+  trackId?: number;
+}
+
+/**
+ * Anything the engine can run inference on. ImageBitmaps are consumed by the
+ * engine (transferred to the worker or closed after use) and must not be
+ * reused by the caller afterwards.
+ */
+export type DetectionSource = HTMLImageElement | HTMLCanvasElement | HTMLVideoElement | ImageData | ImageBitmap;
+
+export interface DetectOptions {
+  maxNumBoxes?: number;
+  minScore?: number;
+}
+
+// COCO-SSD's own defaults, used until the user changes them in settings
+export const DEFAULT_DETECT_OPTIONS: Required<DetectOptions> = {
+  maxNumBoxes: 20,
+  minScore: 0.5,
+};
+
+const BOX_COLOR = '#00d9ff';
+const LABEL_TEXT_COLOR = '#0f1419';
+
+// Draw a single labelled bounding box in the app's cyan style
+export function drawBox(ctx: CanvasRenderingContext2D, bbox: Detection['bbox'], label: string) {
+  const [x, y, width, height] = bbox;
+  ctx.strokeStyle = BOX_COLOR;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([4, 2]);
+  ctx.strokeRect(x, y, width, height);
+  ctx.setLineDash([]);
+
+  ctx.font = 'bold 12px sans-serif';
+  const textMetrics = ctx.measureText(label);
+  ctx.fillStyle = BOX_COLOR;
+  ctx.fillRect(x, y - 18, textMetrics.width + 4, 16);
+  ctx.fillStyle = LABEL_TEXT_COLOR;
+  ctx.fillText(label, x + 2, y - 4);
+}
+
+// "person #3" for tracked detections, just the class otherwise
+export function formatDetectionName(detection: Detection) {
+  return detection.trackId === undefined ? detection.class : `${detection.class} #${detection.trackId}`;
+}
+
+export function formatDetectionLabel(detection: Detection) {
+  return `${formatDetectionName(detection)} ${(detection.score * 100).toFixed(1)}%`;
+}
+
+// Draw bounding boxes and labels for every detection
+export function drawDetections(ctx: CanvasRenderingContext2D, detections: Detection[]) {
+  detections.forEach((detection) => {
+    drawBox(ctx, detection.bbox, formatDetectionLabel(detection));
+  });
+}
@@ -0,0 +1,272 @@
+import type { BackendPreference, BackendSelection, TensorMemory } from './backends';
+import { DEFAULT_COCO_SSD_BASE } from './cocoSsdModel';
+import { getCustomModel } from './customModel';
+import { DEFAULT_DETECT_OPTIONS, type Detection, type DetectionSource, type DetectOptions } from './detection';
+import { describeModel, isSameModel, type ModelChoice, type ModelSpec } from './detectors';
+import {
+  MainThreadRuntime,
+  WorkerRuntime,
+  supportsWorkerInference,
+  type InferenceRuntime,
+  type ModelLoadConfig,
+  type ModelLoadResult,
+  type ProgressCallback,
+  type RuntimeKind,
+} from './inferenceRuntime';
+import { loadSetting, saveSetting } from './settings';
+
+export type EngineState = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface EngineStatus {
+  state: EngineState;
+  message: string;
+  /** Load progress between 0 and 1 */
+  progress: number;
+  /** Where inference runs once the model is ready */
+  runtime?: RuntimeKind;
+  /** Model currently serving detections */
+  model?: { choice: ModelChoice; name: string };
+  /** Active TF.js backend and how it was chosen */
+  backend?: BackendSelection;
+  /** How long the last model load took and whether it came from the cache */
+  lastLoad?: ModelLoadTiming;
+  error?: string;
+}
+
+const BACKEND_SETTING = 'backend';
+const MODEL_SETTING = 'model';
+const DEFAULT_MODEL: ModelChoice = { kind: 'coco-ssd', base: DEFAULT_COCO_SSD_BASE };
+const DETECT_OPTIONS_SETTING = 'detectOptions';
+
+export interface ModelLoadTiming {
+  timeMs: number;
+  fromCache: boolean;
+}
+
+type StatusListener = (status: EngineStatus) => void;
+
+/**
+ * DetectionEngine
+ *
+ * Owns the TensorFlow.js runtime and the detection model for the whole app so
+ * the live and batch views share a single copy of the weights. Inference runs
+ * in a Web Worker when the browser supports it and falls back to the main
+ * thread otherwise. Status changes are published to subscribers; `detect`
+ * waits for the model if it is still loading and applies the user's detection
+ * parameters unless the caller overrides them.
+ */
+export class DetectionEngine {
+  private runtime: InferenceRuntime | null = null;
+  private loadPromise: Promise<void> | null = null;
+  private listeners = new Set<StatusListener>();
+  private status: EngineStatus = { state: 'idle', message: 'Initializing...', progress: 0 };
+  private backendPreference = loadSetting<BackendPreference>(BACKEND_SETTING, 'auto');
+  private modelChoice = loadSetting<ModelChoice>(MODEL_SETTING, DEFAULT_MODEL);
+  private loadedModel: ModelSpec | null = null;
+  private lastLoad: ModelLoadTiming | null = null;
+  private detectOptions = loadSetting<Required<DetectOptions>>(DETECT_OPTIONS_SETTING, DEFAULT_DETECT_OPTIONS);
+  // Serializes backend and model changes so they apply in the order requested
+  private reconfiguring: Promise<unknown> = Promise.resolve();
+
+  getStatus() {
+    return this.status;
+  }
+
+  subscribe(listener: StatusListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  isReady() {
+    return this.status.state === 'ready';
+  }
+
+  // Load TensorFlow.js and the model once; repeated calls share the same promise
+  load() {
+    if (!this.loadPromise) {
+      this.loadPromise = this.initialize().catch((error) => {
+        console.error('Error loading model:', error);
+        this.loadPromise = null;
+        this.setStatus({
+          state: 'error',
+          message: 'Error loading model',
+          progress: 0,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      });
+    }
+    return this.loadPromise;
+  }
+
+  getBackendPreference() {
+    return this.backendPreference;
+  }
+
+  // Persist a new backend choice and apply it to the loaded model
+  async setBackendPreference(preference: BackendPreference) {
+    this.backendPreference = preference;
+    saveSetting(BACKEND_SETTING, preference);
+
+    return this.reconfigure(
+      preference === 'auto' ? 'Benchmarking backends...' : `Switching to ${preference}...`,
+      runtime => runtime.setBackend(preference)
+    );
+  }
+
+  getModel() {
+    return this.modelChoice;
+  }
+
+  // Persist a new model choice and hot-swap the loaded model to it
+  async setModel(choice: ModelChoice) {
+    this.modelChoice = choice;
+    saveSetting(MODEL_SETTING, choice);
+
+    const model = this.resolveModel(choice);
+    return this.reconfigure(`Loading ${describeModel(model)}...`, async (runtime, onProgress) => {
+      if (this.loadedModel && isSameModel(this.toChoice(this.loadedModel), choice)) {
+        return this.status.backend!;
+      }
+      const start = performance.now();
+      const result = await runtime.load({ model, backend: this.backendPreference }, onProgress);
+      this.loadedModel = model;
+      this.recordLoad(start, result);
+      return result.backend;
+    });
+  }
+
+  getDetectOptions() {
+    return this.detectOptions;
+  }
+
+  setDetectOptions(options: DetectOptions) {
+    this.detectOptions = { ...this.detectOptions, ...options };
+    saveSetting(DETECT_OPTIONS_SETTING, this.detectOptions);
+  }
+
+  async detect(source: DetectionSource, options: DetectOptions = {}): Promise<Detection[]> {
+    if (!this.runtime) {
+      await this.load();
+    }
+    return this.runtime!.detect(source, { ...this.detectOptions, ...options });
+  }
+
+  // Tensor memory where inference runs, or null before the model has loaded
+  async memory(): Promise<TensorMemory | null> {
+    return this.runtime ? this.runtime.memory() : null;
+  }
+
+  dispose() {
+    this.runtime?.dispose();
+    this.runtime = null;
+    this.loadedModel = null;
+    this.lastLoad = null;
+    this.loadPromise = null;
+    this.setStatus({ state: 'idle', message: 'Initializing...', progress: 0 });
+  }
+
+  private async initialize() {
+    this.setStatus({ state: 'loading', message: 'Loading TensorFlow.js...', progress: 0.1 });
+    const onProgress = this.reportProgress;
+
+    const start = performance.now();
+    const config = this.modelConfig();
+    let runtime: InferenceRuntime | null = null;
+    let result: ModelLoadResult | null = null;
+    if (supportsWorkerInference()) {
+      const workerRuntime = new WorkerRuntime();
+      try {
+        result = await workerRuntime.load(config, onProgress);
+        runtime = workerRuntime;
+      } catch (error) {
+        console.warn('Worker inference unavailable, falling back to main thread:', error);
+        workerRuntime.dispose();
+      }
+    }
+
+    if (!runtime || !result) {
+      runtime = new MainThreadRuntime();
+      result = await runtime.load(config, onProgress);
+    }
+
+    this.runtime = runtime;
+    this.loadedModel = config.model;
+    this.recordLoad(start, result);
+    this.setReady(runtime, result.backend);
+  }
+
+  private recordLoad(start: number, result: ModelLoadResult) {
+    this.lastLoad = { timeMs: performance.now() - start, fromCache: result.fromCache };
+  }
+
+  /**
+   * Apply a change to the loaded runtime, reporting progress while it runs. On
+   * failure the previous model keeps serving and the error is rethrown.
+   */
+  private reconfigure(
+    message: string,
+    task: (runtime: InferenceRuntime, onProgress: ProgressCallback) => Promise<BackendSelection>
+  ) {
+    const run = async () => {
+      await this.load();
+      const runtime = this.runtime!;
+      this.reportProgress(message, 0.4);
+      try {
+        this.setReady(runtime, await task(runtime, this.reportProgress));
+      } catch (error) {
+        console.error('Error reconfiguring detection engine:', error);
+        this.setStatus({ ...this.status, state: 'ready', message: 'Ready', progress: 1 });
+        throw error;
+      }
+    };
+
+    const result = this.reconfiguring.then(run, run);
+    this.reconfiguring = result.catch(() => {});
+    return result;
+  }
+
+  private modelConfig(): ModelLoadConfig {
+    return { model: this.resolveModel(this.modelChoice), backend: this.backendPreference };
+  }
+
+  // Look up what a choice refers to; a deleted custom model falls back to the default
+  private resolveModel(choice: ModelChoice): ModelSpec {
+    if (choice.kind === 'custom') {
+      const spec = getCustomModel(choice.id);
+      return spec ? { kind: 'custom', spec } : this.resolveModel(DEFAULT_MODEL);
+    }
+    return choice;
+  }
+
+  private toChoice(model: ModelSpec): ModelChoice {
+    return model.kind === 'custom' ? { kind: 'custom', id: model.spec.id } : model;
+  }
+
+  private reportProgress = (message: string, progress: number) => {
+    this.setStatus({ ...this.status, state: 'loading', message, progress });
+  };
+
+  private setReady(runtime: InferenceRuntime, backend: BackendSelection) {
+    this.setStatus({
+      state: 'ready',
+      message: 'Ready',
+      progress: 1,
+      runtime: runtime.kind,
+      model: this.loadedModel
+        ? { choice: this.toChoice(this.loadedModel), name: describeModel(this.loadedModel) }
+        : undefined,
+      backend,
+      lastLoad: this.lastLoad ?? undefined,
+    });
+  }
+
+  private setStatus(status: EngineStatus) {
+    this.status = status;
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+export const detectionEngine = new DetectionEngine();
@@ -0,0 +1,83 @@
+import * as tf from '@tensorflow/tfjs';
+import { activateBackend, selectBackend, type BackendPreference, type BackendSelection } from './backends';
+import { CocoSsdDetector, COCO_SSD_BASES, type CocoSsdBase } from './cocoSsdModel';
+import { CustomDetector, type CustomModelSpec } from './customModel';
+import type { Detection, DetectionSource, DetectOptions } from './detection';
+
+/**
+ * Common interface over every model the engine can run, so runtimes and the
+ * rest of the app only ever see the shared `Detection` shape.
+ */
+export interface Detector {
+  /** Whether the weights were read from the local IndexedDB cache */
+  readonly fromCache: boolean;
+  detect(source: DetectionSource, options?: DetectOptions): Promise<Detection[]>;
+  dispose(): void;
+}
+
+// Which model to use, as persisted in settings and shown in the UI
+export type ModelChoice =
+  | { kind: 'coco-ssd'; base: CocoSsdBase }
+  | { kind: 'custom'; id: string };
+
+// Everything a runtime needs to load a model, resolved from a ModelChoice
+export type ModelSpec =
+  | { kind: 'coco-ssd'; base: CocoSsdBase }
+  | { kind: 'custom'; spec: CustomModelSpec };
+
+export interface LoadedDetector {
+  detector: Detector;
+  selection: BackendSelection;
+}
+
+const BENCHMARK_SIZE = 300;
+
+export function isSameModel(a: ModelChoice, b: ModelChoice) {
+  return a.kind === 'coco-ssd'
+    ? b.kind === 'coco-ssd' && a.base === b.base
+    : b.kind === 'custom' && a.id === b.id;
+}
+
+export function describeModel(model: ModelSpec) {
+  if (model.kind === 'custom') {
+    return model.spec.name;
+  }
+  return COCO_SSD_BASES.find(option => option.value === model.base)?.label ?? model.base;
+}
+
+export async function loadDetector(
+  model: ModelSpec,
+  preference: BackendPreference,
+  onProgress?: (message: string, progress: number) => void
+): Promise<LoadedDetector> {
+  await tf.ready();
+
+  // An explicit backend is activated first so the weights are uploaded to it
+  // directly; "auto" needs a loaded model to benchmark with
+  if (preference !== 'auto') {
+    await activateBackend(preference);
+  }
+
+  const detector = model.kind === 'custom'
+    ? await CustomDetector.load(model.spec)
+    : await CocoSsdDetector.load(model.base, fraction => {
+        onProgress?.(`Downloading ${describeModel(model)}...`, 0.1 + fraction * 0.6);
+      });
+  if (preference === 'auto') {
+    onProgress?.('Benchmarking backends...', 0.8);
+  }
+  return { detector, selection: await applyDetectorBackend(detector, preference) };
+}
+
+// Switch the backend of an already loaded detector, benchmarking it for "auto"
+export function applyDetectorBackend(detector: Detector, preference: BackendPreference) {
+  return selectBackend(preference, () => detector.detect(benchmarkFrame()));
+}
+
+function benchmarkFrame() {
+  const frame = new ImageData(BENCHMARK_SIZE, BENCHMARK_SIZE);
+  for (let i = 0; i < frame.data.length; i++) {
+    frame.data[i] = Math.random() * 255;
+  }
+  return frame;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { Detection } from './detection';
+import { BACKGROUND, evaluateDetections, type EvaluationImage } from './evaluation';
+import type { GroundTruthBox } from './groundTruth';
+
+const detection = (cls: string, score: number, bbox: Detection['bbox']): Detection => ({ class: cls, score, bbox });
+const box = (cls: string, bbox: GroundTruthBox['bbox'], ignore?: boolean): GroundTruthBox => ({ class: cls, bbox, ignore });
+
+describe('evaluateDetections', () => {
+  // One hit then a false positive, with a second person never found: precision
+  // is 1 up to recall 0.5 and nothing beyond, so 51 of the 101 recall steps score
+  const people: EvaluationImage = {
+    name: 'people',
+    predictions: [
+      detection('person', 0.9, [0, 0, 100, 100]),
+      detection('person', 0.8, [300, 300, 50, 50]),
+    ],
+    groundTruth: [box('person', [0, 0, 100, 100]), box('person', [150, 0, 100, 100])],
+  };
+
+  // IoU 0.72: a hit at thresholds 0.5 to 0.7, a miss from 0.75 up
+  const car: EvaluationImage = {
+    name: 'car',
+    predictions: [detection('car', 0.7, [0, 0, 100, 72])],
+    groundTruth: [box('car', [0, 0, 100, 100])],
+  };
+
+  it('interpolates AP over 101 recall steps', () => {
+    const report = evaluateDetections([people]);
+    const [person] = report.classes;
+
+    expect(person).toMatchObject({ groundTruth: 2, predictions: 2, truePositives: 1, falsePositives: 1 });
+    expect(person.precision).toBe(0.5);
+    expect(person.recall).toBe(0.5);
+    expect(person.ap50).toBeCloseTo(51 / 101);
+    expect(person.ap).toBeCloseTo(51 / 101);
+    expect(person.curve.at(-1)).toEqual({ recall: 0.5, precision: 1 });
+  });
+
+  it('averages AP over IoU thresholds and mAP over classes', () => {
+    const report = evaluateDetections([people, car]);
+    const carEvaluation = report.classes.find(c => c.class === 'car')!;
+
+    expect(carEvaluation.ap50).toBe(1);
+    expect(carEvaluation.ap).toBeCloseTo(0.5);
+    expect(report.images).toBe(2);
+    expect(report.map50).toBeCloseTo((51 / 101 + 1) / 2);
+    expect(report.map).toBeCloseTo((51 / 101 + 0.5) / 2);
+  });
+
+  it('leaves AP undefined for classes without ground truth', () => {
+    const report = evaluateDetections([{
+      name: 'dog',
+      predictions: [detection('dog', 0.9, [0, 0, 10, 10])],
+      groundTruth: [],
+    }]);
+
+    expect(report.classes[0].ap).toBeNull();
+    expect(report.map).toBeNull();
+  });
+
+  it('neither rewards nor penalises predictions on ignored boxes', () => {
+    const report = evaluateDetections([{
+      name: 'crowd',
+      predictions: [detection('person', 0.9, [0, 0, 100, 100]), detection('person', 0.8, [200, 0, 100, 100])],
+      groundTruth: [box('person', [0, 0, 100, 100], true), box('person', [200, 0, 100, 100])],
+    }]);
+
+    expect(report.classes[0]).toMatchObject({ groundTruth: 1, truePositives: 1, falsePositives: 0, ap50: 1 });
+    expect(report.confusion.counts).toEqual([[1, 0], [0, 0]]);
+  });
+
+  it('counts misclassifications, misses and spurious boxes in the confusion matrix', () => {
+    const report = evaluateDetections([people, {
+      name: 'mixup',
+      predictions: [detection('car', 0.9, [0, 0, 100, 100])],
+      groundTruth: [box('person', [0, 0, 100, 100])],
+    }]);
+    const { labels, counts } = report.confusion;
+    const cell = (groundTruth: string, predicted: string) => counts[labels.indexOf(groundTruth)][labels.indexOf(predicted)];
+
+    expect(labels).toEqual(['car', 'person', BACKGROUND]);
+    expect(cell('person', 'person')).toBe(1);
+    expect(cell('person', 'car')).toBe(1);
+    expect(cell('person', BACKGROUND)).toBe(1);
+    expect(cell(BACKGROUND, 'person')).toBe(1);
+  });
+});
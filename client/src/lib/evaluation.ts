@@ -0,0 +1,230 @@
+import type { Detection, DetectOptions } from './detection';
+import type { GroundTruthBox } from './groundTruth';
+import { iou } from './tracker';
+
+/**
+ * Detection quality against ground truth, scored the way COCO does: per-class
+ * predictions are matched greedily by confidence to the best unmatched box of
+ * the same class, and AP is the 101-point interpolated area under the
+ * precision/recall curve, averaged over IoU thresholds 0.5 to 0.95 for AP.
+ */
+
+export interface EvaluationImage {
+  name: string;
+  predictions: Detection[];
+  groundTruth: GroundTruthBox[];
+}
+
+export interface PrPoint {
+  recall: number;
+  precision: number;
+}
+
+export interface ClassEvaluation {
+  class: string;
+  /** Ground-truth boxes, not counting ignored ones */
+  groundTruth: number;
+  predictions: number;
+  /** At IoU 0.5 */
+  truePositives: number;
+  falsePositives: number;
+  precision: number;
+  recall: number;
+  /** Null for classes with no ground truth, where AP is undefined */
+  ap50: number | null;
+  ap: number | null;
+  /** Interpolated precision at IoU 0.5, by recall */
+  curve: PrPoint[];
+}
+
+export interface ConfusionMatrix {
+  /** Classes, then `BACKGROUND` for missed boxes and spurious predictions */
+  labels: string[];
+  /** counts[groundTruth][predicted] */
+  counts: number[][];
+}
+
+export interface EvaluationReport {
+  images: number;
+  classes: ClassEvaluation[];
+  /** Means over classes with ground truth */
+  map50: number | null;
+  map: number | null;
+  confusion: ConfusionMatrix;
+}
+
+export const BACKGROUND = 'background';
+
+/**
+ * Detection settings for results that may be scored. AP needs the
+ * low-confidence end of the precision/recall curve, which the usual display
+ * threshold cuts off, so scoring would understate recall.
+ */
+export const EVALUATION_DETECT_OPTIONS: Required<DetectOptions> = { maxNumBoxes: 100, minScore: 0.05 };
+
+export const IOU_THRESHOLDS = Array.from({ length: 10 }, (_, i) => 0.5 + i * 0.05);
+
+const RECALL_STEPS = Array.from({ length: 101 }, (_, i) => i / 100);
+
+const MATCH_IOU = 0.5;
+
+interface ClassMatches {
+  /** Whether each prediction, by descending score, was a true positive; ignored ones are left out */
+  hits: boolean[];
+  groundTruth: number;
+}
+
+function matchClass(images: EvaluationImage[], cls: string, threshold: number): ClassMatches {
+  const predictions = images
+    .flatMap((image, imageIndex) => image.predictions.filter(p => p.class === cls).map(p => ({ ...p, imageIndex })))
+    .sort((a, b) => b.score - a.score);
+  const boxes = images.map(image => image.groundTruth.filter(box => box.class === cls));
+  const matched = boxes.map(imageBoxes => imageBoxes.map(() => false));
+  const hits: boolean[] = [];
+
+  for (const prediction of predictions) {
+    let best = -1;
+    let bestIou = threshold;
+    boxes[prediction.imageIndex].forEach((box, i) => {
+      if (matched[prediction.imageIndex][i]) return;
+      const overlap = iou(prediction.bbox, box.bbox);
+      if (overlap >= bestIou) {
+        best = i;
+        bestIou = overlap;
+      }
+    });
+    if (best < 0) {
+      hits.push(false);
+      continue;
+    }
+    matched[prediction.imageIndex][best] = true;
+    if (!boxes[prediction.imageIndex][best].ignore) hits.push(true);
+  }
+
+  return { hits, groundTruth: boxes.flat().filter(box => !box.ignore).length };
+}
+
+function precisionRecall({ hits, groundTruth }: ClassMatches): PrPoint[] {
+  let truePositives = 0;
+  return hits.map((hit, i) => {
+    if (hit) truePositives++;
+    return { recall: truePositives / groundTruth, precision: truePositives / (i + 1) };
+  });
+}
+
+// Precision at each recall step, taking the best precision at that recall or beyond
+function interpolate(points: PrPoint[]): PrPoint[] {
+  const envelope = points.map(point => point.precision);
+  for (let i = envelope.length - 2; i >= 0; i--) {
+    envelope[i] = Math.max(envelope[i], envelope[i + 1]);
+  }
+  return RECALL_STEPS.map(recall => {
+    const index = points.findIndex(point => point.recall >= recall);
+    return { recall, precision: index < 0 ? 0 : envelope[index] };
+  });
+}
+
+function averagePrecision(matches: ClassMatches) {
+  const curve = interpolate(precisionRecall(matches));
+  return curve.reduce((sum, point) => sum + point.precision, 0) / curve.length;
+}
+
+function evaluateClass(images: EvaluationImage[], cls: string): ClassEvaluation {
+  const atMatchIou = matchClass(images, cls, MATCH_IOU);
+  const truePositives = atMatchIou.hits.filter(Boolean).length;
+  const falsePositives = atMatchIou.hits.length - truePositives;
+  const points = precisionRecall(atMatchIou);
+  const hasGroundTruth = atMatchIou.groundTruth > 0;
+  const maxRecall = points.length > 0 ? points[points.length - 1].recall : 0;
+
+  return {
+    class: cls,
+    groundTruth: atMatchIou.groundTruth,
+    predictions: images.reduce((sum, image) => sum + image.predictions.filter(p => p.class === cls).length, 0),
+    truePositives,
+    falsePositives,
+    precision: atMatchIou.hits.length > 0 ? truePositives / atMatchIou.hits.length : 0,
+    recall: hasGroundTruth ? truePositives / atMatchIou.groundTruth : 0,
+    ap50: hasGroundTruth ? averagePrecision(atMatchIou) : null,
+    ap: hasGroundTruth
+      ? IOU_THRESHOLDS.reduce((sum, threshold) => sum + averagePrecision(matchClass(images, cls, threshold)), 0) / IOU_THRESHOLDS.length
+      : null,
+    curve: hasGroundTruth ? interpolate(points).filter(point => point.recall <= maxRecall) : [],
+  };
+}
+
+/**
+ * Confusion matrix at IoU 0.5, matching boxes regardless of class so that
+ * misclassifications show up off the diagonal. Pairs are taken by highest
+ * overlap first; predictions on ignored boxes are not counted.
+ */
+function confusionMatrix(images: EvaluationImage[], classes: string[]): ConfusionMatrix {
+  const labels = [...classes, BACKGROUND];
+  const index = new Map(labels.map((label, i) => [label, i]));
+  const counts = labels.map(() => labels.map(() => 0));
+  const background = labels.length - 1;
+
+  for (const image of images) {
+    const pairs = image.predictions.flatMap((prediction, p) =>
+      image.groundTruth.map((box, g) => ({ p, g, overlap: iou(prediction.bbox, box.bbox) }))
+    ).filter(pair => pair.overlap >= MATCH_IOU).sort((a, b) => b.overlap - a.overlap);
+    const matchedPredictions = new Set<number>();
+    const matchedBoxes = new Set<number>();
+
+    for (const { p, g } of pairs) {
+      if (matchedPredictions.has(p) || matchedBoxes.has(g)) continue;
+      matchedPredictions.add(p);
+      matchedBoxes.add(g);
+      if (!image.groundTruth[g].ignore) {
+        counts[index.get(image.groundTruth[g].class)!][index.get(image.predictions[p].class)!]++;
+      }
+    }
+    image.groundTruth.forEach((box, g) => {
+      if (!matchedBoxes.has(g) && !box.ignore) counts[index.get(box.class)!][background]++;
+    });
+    image.predictions.forEach((prediction, p) => {
+      if (!matchedPredictions.has(p)) counts[background][index.get(prediction.class)!]++;
+    });
+  }
+
+  return { labels, counts };
+}
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+export function evaluateDetections(images: EvaluationImage[]): EvaluationReport {
+  const classes = Array.from(new Set(images.flatMap(image => [
+    ...image.groundTruth.map(box => box.class),
+    ...image.predictions.map(p => p.class),
+  ]))).sort();
+  const evaluations = classes.map(cls => evaluateClass(images, cls));
+  const scored = evaluations.filter(evaluation => evaluation.ap !== null);
+
+  return {
+    images: images.length,
+    classes: evaluations,
+    map50: mean(scored.map(evaluation => evaluation.ap50!)),
+    map: mean(scored.map(evaluation => evaluation.ap!)),
+    confusion: confusionMatrix(images, classes),
+  };
+}
+
+const percent = (value: number | null) => (value === null ? '' : (value * 100).toFixed(2));
+
+/** Per-class metrics followed by the confusion matrix, as CSV */
+export function evaluationCsv(report: EvaluationReport) {
+  const quote = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const rows = [
+    ['Class', 'Ground Truth', 'Predictions', 'TP', 'FP', 'Precision (%)', 'Recall (%)', 'AP50 (%)', 'AP50-95 (%)'].join(','),
+    ...report.classes.map(c => [
+      quote(c.class), c.groundTruth, c.predictions, c.truePositives, c.falsePositives,
+      percent(c.precision), percent(c.recall), percent(c.ap50), percent(c.ap),
+    ].join(',')),
+    ['All', '', '', '', '', '', '', percent(report.map50), percent(report.map)].join(','),
+    '',
+    ['Ground Truth \\ Predicted', ...report.confusion.labels.map(quote)].join(','),
+    ...report.confusion.counts.map((row, i) => [quote(report.confusion.labels[i]), ...row].join(',')),
+  ];
+  return rows.join('\n');
+}
@@ -0,0 +1,169 @@
+import type { Detection } from './detection';
+import { loadSetting, saveSetting } from './settings';
+
+/**
+ * Pacing for the live detection loop. Frames are processed at most at the
+ * target rate, only every Nth processed frame goes to the model (the tracker
+ * predicts boxes for the rest), the model input is shrunk a step at a time
+ * while inference runs over the latency budget and grown back once it is
+ * comfortably under, and the loop pauses while the tab is hidden.
+ */
+
+export interface SchedulerSettings {
+  /** Frames processed per second at most; 0 follows the display refresh rate */
+  targetFps: number;
+  /** Run the model on every Nth processed frame */
+  detectEvery: number;
+  autoDownscale: boolean;
+  latencyBudgetMs: number;
+  pauseWhenHidden: boolean;
+}
+
+export interface SchedulerState {
+  paused: boolean;
+  /** Model input size relative to the camera frame */
+  scale: number;
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  targetFps: 30,
+  detectEvery: 1,
+  autoDownscale: true,
+  latencyBudgetMs: 100,
+  pauseWhenHidden: true,
+};
+
+export const TARGET_FPS_OPTIONS = [0, 30, 20, 15, 10, 5];
+
+const SCHEDULER_SETTING = 'scheduler';
+const SCALE_STEPS = [1, 0.75, 0.5, 0.35, 0.25];
+// Detections that must be averaged before the input size changes again
+const ADJUST_AFTER = 10;
+const LATENCY_SMOOTHING = 0.2;
+// Grow the input back only once latency is this far under budget, so it does not flap
+const UPSCALE_HEADROOM = 0.5;
+// Animation frames arrive with some jitter; one a little early still counts as due
+const FRAME_SLACK_MS = 2;
+const HIDDEN_FRAME_MS = 1000 / 30;
+
+export function loadSchedulerSettings() {
+  return loadSetting<SchedulerSettings>(SCHEDULER_SETTING, DEFAULT_SCHEDULER_SETTINGS);
+}
+
+export function saveSchedulerSettings(settings: SchedulerSettings) {
+  saveSetting(SCHEDULER_SETTING, settings);
+}
+
+export class FrameScheduler {
+  private state: SchedulerState = { paused: false, scale: 1 };
+  private step = 0;
+  private lastFrameTime = -Infinity;
+  private frameCount = 0;
+  private latencyMs: number | null = null;
+  private samples = 0;
+
+  constructor(
+    private settings: SchedulerSettings,
+    private onChange: (state: SchedulerState) => void
+  ) {}
+
+  setSettings(settings: SchedulerSettings) {
+    this.settings = settings;
+    if (!settings.autoDownscale) {
+      this.setStep(0);
+    }
+    this.setHidden(document.hidden);
+  }
+
+  getState() {
+    return this.state;
+  }
+
+  /** Whether a frame at `now` (ms) is due under the target rate; due frames are counted */
+  isDue(now: number) {
+    const { targetFps } = this.settings;
+    if (targetFps > 0 && now - this.lastFrameTime < 1000 / targetFps - FRAME_SLACK_MS) {
+      return false;
+    }
+    this.lastFrameTime = now;
+    return true;
+  }
+
+  /** Call once per processed frame; true when the model should see it */
+  nextFrameDetects() {
+    return this.frameCount++ % Math.max(1, this.settings.detectEvery) === 0;
+  }
+
+  recordLatency(ms: number) {
+    this.latencyMs = this.latencyMs === null ? ms : this.latencyMs + (ms - this.latencyMs) * LATENCY_SMOOTHING;
+    this.samples++;
+    if (!this.settings.autoDownscale || this.samples < ADJUST_AFTER) return;
+
+    const budget = this.settings.latencyBudgetMs;
+    if (this.latencyMs > budget && this.step < SCALE_STEPS.length - 1) {
+      this.setStep(this.step + 1);
+    } else if (this.latencyMs < budget * UPSCALE_HEADROOM && this.step > 0) {
+      this.setStep(this.step - 1);
+    }
+  }
+
+  setHidden(hidden: boolean) {
+    const paused = hidden && this.settings.pauseWhenHidden;
+    if (paused !== this.state.paused) {
+      this.update({ paused });
+    }
+  }
+
+  // Start a new session at full size
+  reset() {
+    this.lastFrameTime = -Infinity;
+    this.frameCount = 0;
+    this.setStep(0);
+    this.setHidden(document.hidden);
+  }
+
+  private setStep(step: number) {
+    this.step = step;
+    this.latencyMs = null;
+    this.samples = 0;
+    if (SCALE_STEPS[step] !== this.state.scale) {
+      this.update({ scale: SCALE_STEPS[step] });
+    }
+  }
+
+  private update(changes: Partial<SchedulerState>) {
+    this.state = { ...this.state, ...changes };
+    this.onChange(this.state);
+  }
+}
+
+/**
+ * Run `callback` on the next animation frame, or on a timer while the page is
+ * hidden, since hidden pages get no animation frames (browsers throttle those
+ * timers too, to about once a second). Returns a function that cancels it.
+ */
+export function requestFrame(callback: () => void) {
+  if (document.hidden) {
+    const timeout = setTimeout(callback, HIDDEN_FRAME_MS);
+    return () => clearTimeout(timeout);
+  }
+  const frame = requestAnimationFrame(() => callback());
+  return () => cancelAnimationFrame(frame);
+}
+
+// Map boxes found on a scaled-down frame back to full-size pixels
+export function scaleDetections(detections: Detection[], factor: number): Detection[] {
+  return factor === 1
+    ? detections
+    : detections.map(d => ({ ...d, bbox: d.bbox.map(value => value * factor) as Detection['bbox'] }));
+}
+
+/** Short description of the schedule for the status area */
+export function describeSchedule(settings: SchedulerSettings, state: SchedulerState) {
+  if (state.paused) return 'Paused (tab hidden)';
+  return [
+    settings.targetFps > 0 ? `${settings.targetFps} fps` : 'Max fps',
+    settings.detectEvery > 1 ? `detect 1/${settings.detectEvery}` : null,
+    state.scale < 1 ? `input ${Math.round(state.scale * 100)}%` : null,
+  ].filter(Boolean).join(' · ');
+}
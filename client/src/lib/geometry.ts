@@ -0,0 +1,79 @@
+import type { Detection } from './detection';
+
+/**
+ * Geometry helpers for user-drawn overlays. Overlay shapes are stored in
+ * normalized coordinates (0–1 of the frame size) so the same line or zone
+ * applies to any camera resolution or video file.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export function bboxCentre([x, y, width, height]: Detection['bbox']): Point {
+  return { x: x + width / 2, y: y + height / 2 };
+}
+
+export function normalizePoint(point: Point, width: number, height: number): Point {
+  return { x: point.x / width, y: point.y / height };
+}
+
+export function denormalizePoint(point: Point, width: number, height: number): Point {
+  return { x: point.x * width, y: point.y * height };
+}
+
+// Sign of the cross product: > 0 when `point` is right of a→b on screen (y down)
+export function sideOfLine(a: Point, b: Point, point: Point) {
+  return (b.x - a.x) * (point.y - a.y) - (b.y - a.y) * (point.x - a.x);
+}
+
+export function segmentsIntersect(p1: Point, p2: Point, q1: Point, q2: Point) {
+  const d1 = sideOfLine(q1, q2, p1);
+  const d2 = sideOfLine(q1, q2, p2);
+  const d3 = sideOfLine(p1, p2, q1);
+  const d4 = sideOfLine(p1, p2, q2);
+  return d1 * d2 < 0 && d3 * d4 < 0;
+}
+
+// Ray casting; points exactly on an edge may fall either way
+export function pointInPolygon(point: Point, polygon: Point[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Map a pointer event on a canvas to normalized frame coordinates, taking
+ * `object-fit: cover` scaling and cropping of the displayed canvas into
+ * account.
+ */
+export function canvasPointFromEvent(event: { clientX: number; clientY: number }, canvas: HTMLCanvasElement): Point {
+  const rect = canvas.getBoundingClientRect();
+  const fit = getComputedStyle(canvas).objectFit;
+  const scale = fit === 'cover'
+    ? Math.max(rect.width / canvas.width, rect.height / canvas.height)
+    : fit === 'contain'
+      ? Math.min(rect.width / canvas.width, rect.height / canvas.height)
+      : NaN;
+
+  if (Number.isNaN(scale)) {
+    return {
+      x: (event.clientX - rect.left) / rect.width,
+      y: (event.clientY - rect.top) / rect.height,
+    };
+  }
+
+  const offsetX = (rect.width - canvas.width * scale) / 2;
+  const offsetY = (rect.height - canvas.height * scale) / 2;
+  return {
+    x: Math.min(Math.max((event.clientX - rect.left - offsetX) / scale / canvas.width, 0), 1),
+    y: Math.min(Math.max((event.clientY - rect.top - offsetY) / scale / canvas.height, 0), 1),
+  };
+}
@@ -0,0 +1,110 @@
+import type { Detection } from './detection';
+
+/**
+ * Ground-truth annotations imported from COCO JSON or Pascal VOC XML files,
+ * for scoring batch results. Boxes are converted to the `[x, y, width,
+ * height]` pixel boxes detections use, and images are matched to processed
+ * files by file name, ignoring folders, extension and case.
+ */
+
+export interface GroundTruthBox {
+  class: string;
+  bbox: Detection['bbox'];
+  /** VOC "difficult" or COCO crowd boxes: neither required nor penalized */
+  ignore?: boolean;
+}
+
+/** Boxes by image key, see `groundTruthKey` */
+export type GroundTruth = Map<string, GroundTruthBox[]>;
+
+// Pascal VOC names for classes COCO-SSD reports under another name
+const VOC_CLASS_ALIASES: Record<string, string> = {
+  aeroplane: 'airplane',
+  diningtable: 'dining table',
+  motorbike: 'motorcycle',
+  pottedplant: 'potted plant',
+  sofa: 'couch',
+  tvmonitor: 'tv',
+};
+
+export function groundTruthKey(fileName: string) {
+  return fileName.split(/[\\/]/).pop()!.replace(/\.[^.]+$/, '').toLowerCase();
+}
+
+export function isGroundTruthFile(file: File) {
+  return /\.(json|xml)$/i.test(file.name);
+}
+
+interface CocoFile {
+  images?: { id: number; file_name: string }[];
+  annotations?: { image_id: number; category_id: number; bbox: number[]; iscrowd?: number }[];
+  categories?: { id: number; name: string }[];
+}
+
+export function parseCocoGroundTruth(data: CocoFile): GroundTruth {
+  if (!Array.isArray(data.images) || !Array.isArray(data.annotations) || !Array.isArray(data.categories)) {
+    throw new Error('Not a COCO annotation file: expected images, annotations and categories');
+  }
+  const categories = new Map(data.categories.map(category => [category.id, category.name]));
+  const keys = new Map(data.images.map(image => [image.id, groundTruthKey(image.file_name)]));
+  // Images without annotations are kept: they are negatives
+  const groundTruth: GroundTruth = new Map(Array.from(keys.values()).map(key => [key, []]));
+
+  for (const annotation of data.annotations) {
+    const key = keys.get(annotation.image_id);
+    const cls = categories.get(annotation.category_id);
+    if (key === undefined || cls === undefined || annotation.bbox?.length !== 4) continue;
+    const [x, y, width, height] = annotation.bbox;
+    groundTruth.get(key)!.push({
+      class: cls,
+      bbox: [x, y, width, height],
+      ...(annotation.iscrowd ? { ignore: true } : {}),
+    });
+  }
+  return groundTruth;
+}
+
+/**
+ * One VOC annotation. The image is named by `<filename>`, or after the XML
+ * file itself when that is missing.
+ */
+export function parseVocGroundTruth(xml: string, fallbackName: string): GroundTruth {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  const annotation = doc.querySelector('annotation');
+  if (doc.querySelector('parsererror') || !annotation) {
+    throw new Error('Not a Pascal VOC annotation file');
+  }
+  const text = (parent: Element, selector: string) => parent.querySelector(selector)?.textContent?.trim() ?? '';
+  const number = (parent: Element, selector: string) => parseFloat(text(parent, selector));
+
+  const boxes: GroundTruthBox[] = [];
+  annotation.querySelectorAll(':scope > object').forEach(object => {
+    const name = text(object, 'name');
+    const bndbox = object.querySelector('bndbox');
+    if (!name || !bndbox) return;
+    // VOC boxes are 1-based inclusive pixel coordinates
+    const xmin = number(bndbox, 'xmin') - 1;
+    const ymin = number(bndbox, 'ymin') - 1;
+    const xmax = number(bndbox, 'xmax');
+    const ymax = number(bndbox, 'ymax');
+    if ([xmin, ymin, xmax, ymax].some(Number.isNaN)) return;
+    boxes.push({
+      class: VOC_CLASS_ALIASES[name] ?? name,
+      bbox: [xmin, ymin, xmax - xmin, ymax - ymin],
+      ...(text(object, 'difficult') === '1' ? { ignore: true } : {}),
+    });
+  });
+  return new Map([[groundTruthKey(text(annotation, ':scope > filename') || fallbackName), boxes]]);
+}
+
+export async function readGroundTruthFile(file: File): Promise<GroundTruth> {
+  const content = await file.text();
+  return /\.json$/i.test(file.name)
+    ? parseCocoGroundTruth(JSON.parse(content))
+    : parseVocGroundTruth(content, file.name);
+}
+
+/** `next` replaces the boxes of any image both annotate */
+export function mergeGroundTruth(current: GroundTruth, next: GroundTruth): GroundTruth {
+  return new Map([...Array.from(current), ...Array.from(next)]);
+}
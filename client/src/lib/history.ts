@@ -0,0 +1,136 @@
+import type { Detection } from './detection';
+import type { Recording } from './recordings';
+import { batchResultStore, byNewest, recordingStore, snapshotStore, type ProcessedFile, type Snapshot } from './storage';
+import { lastSeenDetections } from './videoExport';
+
+/**
+ * One searchable list over everything in storage. Snapshots, batch results
+ * and recordings are flattened into history items with the fields the
+ * filters need; the stored record is kept alongside for the detail view.
+ */
+
+export type HistorySource = 'snapshot' | 'batch' | 'recording';
+
+export type HistoryItem = {
+  id: string;
+  name: string;
+  timestamp: Date;
+  /**
+   * Every object in the item; for videos and recordings, each tracked object
+   * as last seen
+   */
+  detections: Detection[];
+  classes: string[];
+} & (
+  | { source: 'snapshot'; record: Snapshot }
+  | { source: 'batch'; record: ProcessedFile }
+  | { source: 'recording'; record: Recording }
+);
+
+export interface HistoryFilter {
+  query: string;
+  /** Only items with one of these classes; any class when empty */
+  classes: string[];
+  /** Confidence range, 0–1, that a matching detection must fall in */
+  minScore: number;
+  maxScore: number;
+  /** Inclusive date range, as yyyy-mm-dd in local time */
+  from: string;
+  to: string;
+  sources: HistorySource[];
+}
+
+export const HISTORY_SOURCES: { value: HistorySource; label: string }[] = [
+  { value: 'snapshot', label: 'Snapshots' },
+  { value: 'batch', label: 'Batch files' },
+  { value: 'recording', label: 'Recordings' },
+];
+
+export const DEFAULT_HISTORY_FILTER: HistoryFilter = {
+  query: '',
+  classes: [],
+  minScore: 0,
+  maxScore: 1,
+  from: '',
+  to: '',
+  sources: HISTORY_SOURCES.map(source => source.value),
+};
+
+function uniqueClasses(detections: Detection[]) {
+  return Array.from(new Set(detections.map(d => d.class))).sort();
+}
+
+export async function loadHistory(): Promise<HistoryItem[]> {
+  const [snapshots, batchResults, recordings] = await Promise.all([
+    snapshotStore.getAll(),
+    batchResultStore.getAll(),
+    recordingStore.getAll(),
+  ]);
+
+  const items: HistoryItem[] = [
+    ...snapshots.map((record): HistoryItem => ({
+      id: record.id,
+      name: `Snapshot ${record.timestamp.toLocaleString()}`,
+      timestamp: record.timestamp,
+      detections: record.detections,
+      classes: uniqueClasses(record.detections),
+      source: 'snapshot',
+      record,
+    })),
+    ...batchResults.map((record): HistoryItem => ({
+      id: record.id,
+      name: record.name,
+      timestamp: record.timestamp,
+      detections: record.detections,
+      classes: uniqueClasses(record.detections),
+      source: 'batch',
+      record,
+    })),
+    ...recordings.map((record): HistoryItem => {
+      const detections = lastSeenDetections(record.frames);
+      return {
+        id: record.id,
+        name: record.name,
+        timestamp: record.createdAt,
+        detections,
+        classes: uniqueClasses(detections),
+        source: 'recording',
+        record,
+      };
+    }),
+  ];
+
+  return items.sort(byNewest(item => item.timestamp));
+}
+
+// Detections of an item that pass the class and confidence filters
+export function matchingDetections(item: HistoryItem, filter: HistoryFilter) {
+  return item.detections.filter(d =>
+    (filter.classes.length === 0 || filter.classes.includes(d.class)) &&
+    d.score >= filter.minScore &&
+    d.score <= filter.maxScore
+  );
+}
+
+function isFilteringDetections(filter: HistoryFilter) {
+  return filter.classes.length > 0 || filter.minScore > 0 || filter.maxScore < 1;
+}
+
+export function filterHistory(items: HistoryItem[], filter: HistoryFilter) {
+  const query = filter.query.trim().toLowerCase();
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`) : null;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`) : null;
+
+  return items.filter(item =>
+    filter.sources.includes(item.source) &&
+    (!query || item.name.toLowerCase().includes(query)) &&
+    (!from || item.timestamp >= from) &&
+    (!to || item.timestamp <= to) &&
+    // Items without detections only match when detections are not being filtered
+    (!isFilteringDetections(filter) || matchingDetections(item, filter).length > 0)
+  );
+}
+
+export function historyClasses(items: HistoryItem[]) {
+  return Array.from(new Set(items.flatMap(item => item.classes))).sort();
+}
@@ -0,0 +1,204 @@
+import { tensorMemory, type BackendPreference, type BackendSelection, type TensorMemory } from './backends';
+import type { Detection, DetectionSource, DetectOptions } from './detection';
+import {
+  applyDetectorBackend,
+  describeModel,
+  loadDetector,
+  type Detector,
+  type ModelSpec,
+} from './detectors';
+
+export type RuntimeKind = 'worker' | 'main-thread';
+
+export type ProgressCallback = (message: string, progress: number) => void;
+
+export interface ModelLoadConfig {
+  model: ModelSpec;
+  backend: BackendPreference;
+}
+
+export interface ModelLoadResult {
+  backend: BackendSelection;
+  fromCache: boolean;
+}
+
+/**
+ * Where inference actually runs. The engine picks an implementation at load
+ * time and talks to it only through this interface. Calling `load` again swaps
+ * the model in place; the previous one keeps serving `detect` until the new
+ * one is ready.
+ */
+export interface InferenceRuntime {
+  readonly kind: RuntimeKind;
+  load(config: ModelLoadConfig, onProgress: ProgressCallback): Promise<ModelLoadResult>;
+  setBackend(backend: BackendPreference): Promise<BackendSelection>;
+  detect(source: DetectionSource, options?: DetectOptions): Promise<Detection[]>;
+  memory(): Promise<TensorMemory>;
+  dispose(): void;
+}
+
+// Messages posted from the main thread to the detection worker
+export type WorkerRequest =
+  | { type: 'load'; id: number; config: ModelLoadConfig }
+  | { type: 'setBackend'; id: number; backend: BackendPreference }
+  | { type: 'detect'; id: number; frame: ImageBitmap; options: DetectOptions }
+  | { type: 'memory'; id: number };
+
+// Messages posted from the detection worker back to the main thread
+export type WorkerResponse =
+  | { type: 'progress'; message: string; progress: number }
+  | { type: 'loaded'; id: number; result: ModelLoadResult }
+  | { type: 'backend'; id: number; selection: BackendSelection }
+  | { type: 'detections'; id: number; detections: Detection[] }
+  | { type: 'memory'; id: number; memory: TensorMemory }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * True when the browser can hand frames to a worker and the worker can get a
+ * canvas to run TF.js on. WebGL availability inside the worker is checked by
+ * the worker itself during load.
+ */
+export function supportsWorkerInference() {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined'
+  );
+}
+
+export class MainThreadRuntime implements InferenceRuntime {
+  readonly kind = 'main-thread';
+  private detector: Detector | null = null;
+
+  async load(config: ModelLoadConfig, onProgress: ProgressCallback) {
+    onProgress(`Loading ${describeModel(config.model)}...`, 0.4);
+    const { detector, selection } = await loadDetector(config.model, config.backend, onProgress);
+    this.detector?.dispose();
+    this.detector = detector;
+    return { backend: selection, fromCache: detector.fromCache };
+  }
+
+  setBackend(backend: BackendPreference) {
+    if (!this.detector) {
+      return Promise.reject(new Error('Model is not loaded'));
+    }
+    return applyDetectorBackend(this.detector, backend);
+  }
+
+  detect(source: DetectionSource, options?: DetectOptions) {
+    if (!this.detector) {
+      return Promise.reject(new Error('Model is not loaded'));
+    }
+    return this.detector.detect(source, options);
+  }
+
+  async memory() {
+    return tensorMemory();
+  }
+
+  dispose() {
+    this.detector?.dispose();
+    this.detector = null;
+  }
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+export class WorkerRuntime implements InferenceRuntime {
+  readonly kind = 'worker';
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 0;
+  private onProgress: ProgressCallback = () => {};
+
+  load(config: ModelLoadConfig, onProgress: ProgressCallback) {
+    this.onProgress = onProgress;
+    if (!this.worker) {
+      this.startWorker();
+    }
+    return this.request<ModelLoadResult>({ type: 'load', id: this.nextId++, config });
+  }
+
+  setBackend(backend: BackendPreference) {
+    return this.request<BackendSelection>({ type: 'setBackend', id: this.nextId++, backend });
+  }
+
+  async detect(source: DetectionSource, options: DetectOptions = {}) {
+    if (!this.worker) {
+      throw new Error('Model is not loaded');
+    }
+
+    const frame = source instanceof ImageBitmap ? source : await createImageBitmap(source);
+    // Transfer the bitmap so the frame is moved, not copied
+    return this.request<Detection[]>({ type: 'detect', id: this.nextId++, frame, options }, [frame]);
+  }
+
+  memory() {
+    return this.request<TensorMemory>({ type: 'memory', id: this.nextId++ });
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.rejectPending(new Error('Detection worker was disposed'));
+  }
+
+  private startWorker() {
+    const worker = new Worker(new URL('../workers/detection.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    this.worker = worker;
+
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        this.onProgress(message.message, message.progress);
+        return;
+      }
+
+      const request = this.pending.get(message.id);
+      this.pending.delete(message.id);
+      switch (message.type) {
+        case 'loaded':
+          request?.resolve(message.result);
+          break;
+        case 'backend':
+          request?.resolve(message.selection);
+          break;
+        case 'detections':
+          request?.resolve(message.detections);
+          break;
+        case 'memory':
+          request?.resolve(message.memory);
+          break;
+        case 'error':
+          request?.reject(new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      this.rejectPending(new Error(event.message || 'Detection worker crashed'));
+    };
+  }
+
+  private request<T>(message: WorkerRequest, transfer: Transferable[] = []) {
+    return new Promise<T>((resolve, reject) => {
+      if (!this.worker) {
+        reject(new Error('Detection worker is not running'));
+        return;
+      }
+      // Each request type is answered by its own response type, which carries a T
+      this.pending.set(message.id, { resolve: result => resolve(result as T), reject });
+      this.worker.postMessage(message, transfer);
+    });
+  }
+
+  private rejectPending(error: Error) {
+    this.pending.forEach(request => request.reject(error));
+    this.pending.clear();
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { Detection } from './detection';
+import { LineCounter, type CountingLine } from './lineCounter';
+
+const WIDTH = 200;
+const HEIGHT = 100;
+
+// Vertical line down the middle of the frame, drawn top to bottom
+const line: CountingLine = { id: 'line', name: 'Line 1', start: { x: 0.5, y: 0 }, end: { x: 0.5, y: 1 }, classes: [] };
+
+const tracked = (trackId: number, centreX: number, cls = 'person'): Detection => ({
+  class: cls,
+  score: 0.9,
+  bbox: [centreX - 10, 40, 20, 20],
+  trackId,
+});
+
+describe('LineCounter', () => {
+  it('counts one crossing per direction', () => {
+    const counter = new LineCounter([line]);
+    // Drawn top to bottom, the line's left is the right of the frame
+    counter.update([tracked(1, 150), tracked(2, 50)], WIDTH, HEIGHT);
+    counter.update([tracked(1, 50), tracked(2, 150)], WIDTH, HEIGHT);
+
+    const [count] = counter.getCounts();
+    expect(count).toMatchObject({ lineId: 'line', in: 1, out: 1 });
+    expect(count.byClass).toEqual({ person: { in: 1, out: 1 } });
+  });
+
+  it('counts a track once while it stays on one side', () => {
+    const counter = new LineCounter([line]);
+    [150, 120, 80, 60, 40].forEach(x => counter.update([tracked(1, x)], WIDTH, HEIGHT));
+
+    expect(counter.getCounts()[0]).toMatchObject({ in: 1, out: 0 });
+  });
+
+  it('ignores tracks seen only once and untracked detections', () => {
+    const counter = new LineCounter([line]);
+    counter.update([tracked(1, 150), { class: 'person', score: 0.9, bbox: [140, 40, 20, 20] }], WIDTH, HEIGHT);
+    counter.update([tracked(2, 50), { class: 'person', score: 0.9, bbox: [40, 40, 20, 20] }], WIDTH, HEIGHT);
+
+    expect(counter.getCounts()[0]).toMatchObject({ in: 0, out: 0 });
+  });
+
+  it('counts only the line\'s classes', () => {
+    const counter = new LineCounter([{ ...line, classes: ['car'] }]);
+    counter.update([tracked(1, 150, 'person'), tracked(2, 150, 'car')], WIDTH, HEIGHT);
+    counter.update([tracked(1, 50, 'person'), tracked(2, 50, 'car')], WIDTH, HEIGHT);
+
+    expect(counter.getCounts()[0]).toMatchObject({ in: 1, out: 0, byClass: { car: { in: 1, out: 0 } } });
+  });
+
+  it('does not count a track that restarts on the other side', () => {
+    const counter = new LineCounter([line]);
+    counter.update([tracked(1, 150)], WIDTH, HEIGHT);
+    counter.forgetTracks();
+    counter.update([tracked(1, 50)], WIDTH, HEIGHT);
+
+    expect(counter.getCounts()[0]).toMatchObject({ in: 0, out: 0 });
+  });
+});
@@ -0,0 +1,170 @@
+import type { Detection } from './detection';
+import { bboxCentre, denormalizePoint, normalizePoint, segmentsIntersect, sideOfLine, type Point } from './geometry';
+import { loadSetting, saveSetting } from './settings';
+
+/**
+ * Directional line-crossing counter. Works on tracked detections: a track is
+ * counted when its centre moves across a line between two frames. Crossing
+ * from the left of the line's start→end direction to the right counts as
+ * "in", the opposite as "out".
+ */
+
+export interface CountingLine {
+  id: string;
+  name: string;
+  /** Normalized frame coordinates */
+  start: Point;
+  end: Point;
+  /** Classes to count; empty counts every class */
+  classes: string[];
+}
+
+export interface CrossingTotals {
+  in: number;
+  out: number;
+}
+
+export interface LineCount extends CrossingTotals {
+  lineId: string;
+  byClass: Record<string, CrossingTotals>;
+}
+
+const LINES_SETTING = 'countingLines';
+const LINE_COLOR = '#facc15';
+
+export function loadCountingLines() {
+  return loadSetting<CountingLine[]>(LINES_SETTING, []);
+}
+
+export function saveCountingLines(lines: CountingLine[]) {
+  saveSetting(LINES_SETTING, lines);
+}
+
+export function createCountingLine(start: Point, end: Point, index: number): CountingLine {
+  return {
+    id: crypto.randomUUID(),
+    name: `Line ${index + 1}`,
+    start,
+    end,
+    classes: [],
+  };
+}
+
+function emptyCount(lineId: string): LineCount {
+  return { lineId, in: 0, out: 0, byClass: {} };
+}
+
+export class LineCounter {
+  private lines: CountingLine[];
+  private counts = new Map<string, LineCount>();
+  // Last normalized centre of every track seen
+  private positions = new Map<number, Point>();
+
+  constructor(lines: CountingLine[]) {
+    this.lines = lines;
+  }
+
+  // Replace the lines, keeping the totals of lines that still exist
+  setLines(lines: CountingLine[]) {
+    this.lines = lines;
+    const ids = new Set(lines.map(line => line.id));
+    Array.from(this.counts.keys())
+      .filter(id => !ids.has(id))
+      .forEach(id => this.counts.delete(id));
+  }
+
+  /**
+   * Feed one frame of tracked detections, in pixels of a `width`×`height`
+   * frame. Untracked detections are ignored.
+   */
+  update(detections: Detection[], width: number, height: number) {
+    const seen = new Set<number>();
+
+    for (const detection of detections) {
+      if (detection.trackId === undefined) continue;
+      seen.add(detection.trackId);
+
+      const position = normalizePoint(bboxCentre(detection.bbox), width, height);
+      const previous = this.positions.get(detection.trackId);
+      this.positions.set(detection.trackId, position);
+      if (!previous) continue;
+
+      for (const line of this.lines) {
+        if (line.classes.length > 0 && !line.classes.includes(detection.class)) continue;
+        // Compare in pixels so non-square frames keep the right angles
+        const a = denormalizePoint(line.start, width, height);
+        const b = denormalizePoint(line.end, width, height);
+        const from = denormalizePoint(previous, width, height);
+        const to = denormalizePoint(position, width, height);
+        if (!segmentsIntersect(from, to, a, b)) continue;
+
+        const direction = sideOfLine(a, b, from) < 0 ? 'in' : 'out';
+        const count = this.counts.get(line.id) ?? emptyCount(line.id);
+        const byClass = count.byClass[detection.class] ?? { in: 0, out: 0 };
+        count[direction]++;
+        byClass[direction]++;
+        count.byClass[detection.class] = byClass;
+        this.counts.set(line.id, count);
+      }
+    }
+
+    // Tracks the tracker has dropped will never report again
+    Array.from(this.positions.keys())
+      .filter(id => !seen.has(id))
+      .forEach(id => this.positions.delete(id));
+  }
+
+  getCounts(): LineCount[] {
+    return this.lines.map(line => {
+      const count = this.counts.get(line.id) ?? emptyCount(line.id);
+      return { ...count, byClass: { ...count.byClass } };
+    });
+  }
+
+  // Forget track positions, e.g. when the tracker restarts its IDs
+  forgetTracks() {
+    this.positions.clear();
+  }
+
+  resetCounts() {
+    this.counts.clear();
+  }
+}
+
+/**
+ * Draw each line with an arrow pointing to its "in" side and its running
+ * totals.
+ */
+export function drawCountingLines(ctx: CanvasRenderingContext2D, lines: CountingLine[], counts: LineCount[] = []) {
+  const { width, height } = ctx.canvas;
+
+  lines.forEach(line => {
+    const a = denormalizePoint(line.start, width, height);
+    const b = denormalizePoint(line.end, width, height);
+    ctx.strokeStyle = LINE_COLOR;
+    ctx.fillStyle = LINE_COLOR;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(a.x, a.y);
+    ctx.lineTo(b.x, b.y);
+    ctx.stroke();
+
+    // Arrow from the midpoint towards the right-hand ("in") side
+    const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+    const normal = { x: -(b.y - a.y) / length, y: (b.x - a.x) / length };
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+    const tip = { x: mid.x + normal.x * 20, y: mid.y + normal.y * 20 };
+    ctx.beginPath();
+    ctx.moveTo(mid.x, mid.y);
+    ctx.lineTo(tip.x, tip.y);
+    ctx.stroke();
+
+    const count = counts.find(c => c.lineId === line.id);
+    const label = count ? `${line.name}  in ${count.in} · out ${count.out}` : line.name;
+    ctx.font = 'bold 12px sans-serif';
+    const textWidth = ctx.measureText(label).width;
+    ctx.fillRect(a.x, a.y - 18, textWidth + 4, 16);
+    ctx.fillStyle = '#0f1419';
+    ctx.fillText(label, a.x + 2, a.y - 4);
+  });
+}
@@ -0,0 +1,62 @@
+import * as tf from '@tensorflow/tfjs';
+
+/**
+ * IndexedDB model cache. Models are stored with TF.js' `indexeddb://` handler
+ * under a common prefix so the app can list and clear its own entries without
+ * touching anything else saved in the same origin.
+ */
+
+export const MODEL_CACHE_PREFIX = 'indexeddb://detect-ai-';
+
+export interface CachedModel {
+  url: string;
+  key: string;
+  sizeBytes: number;
+  dateSaved: Date;
+}
+
+export function modelCacheUrl(key: string) {
+  return `${MODEL_CACHE_PREFIX}${key}`;
+}
+
+export async function isModelCached(url: string) {
+  try {
+    return url in (await tf.io.listModels());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Download a model over HTTP and write it to the cache, reporting download
+ * progress between 0 and 1.
+ */
+export async function downloadToCache(httpUrl: string, cacheUrl: string, onProgress?: (fraction: number) => void) {
+  const artifacts = await tf.io.http(httpUrl, { onProgress }).load!();
+  const [saveHandler] = tf.io.getSaveHandlers(cacheUrl);
+  await saveHandler.save!(artifacts);
+}
+
+export async function listCachedModels(): Promise<CachedModel[]> {
+  const models = await tf.io.listModels();
+  return Object.entries(models)
+    .filter(([url]) => url.startsWith(MODEL_CACHE_PREFIX))
+    .map(([url, info]) => ({
+      url,
+      key: url.slice(MODEL_CACHE_PREFIX.length),
+      sizeBytes: (info.modelTopologyBytes ?? 0) + (info.weightSpecsBytes ?? 0) + (info.weightDataBytes ?? 0),
+      dateSaved: new Date(info.dateSaved),
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export async function removeCachedModel(url: string) {
+  await tf.io.removeModel(url);
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
@@ -0,0 +1,95 @@
+import type { TensorMemory } from './backends';
+import { loadSetting, saveSetting } from './settings';
+
+/**
+ * Live-loop performance counters. The camera side counts frames the video
+ * element presents, the detection side counts inferences and their latency,
+ * and a frame the camera presented while the model was still busy is dropped.
+ * Frames the scheduler skips on purpose (frame-rate cap, detecting on every
+ * Nth frame) are not drops. Rates are measured over a sliding window.
+ */
+
+export interface PerfSample {
+  time: number;
+  /** Frames per second presented by the camera, or null without requestVideoFrameCallback */
+  captureFps: number | null;
+  inferenceFps: number;
+  /** Mean capture-to-detections time over the window */
+  latencyMs: number | null;
+  /** Camera frames that arrived while the model was busy, since the monitor was reset; null when they cannot be counted */
+  droppedFrames: number | null;
+  memory: TensorMemory | null;
+}
+
+const WINDOW_MS = 1000;
+
+export const PERF_HISTORY_LENGTH = 60;
+
+const PERF_HUD_SETTING = 'perfHud';
+
+export function loadShowPerfHud() {
+  return loadSetting(PERF_HUD_SETTING, false);
+}
+
+export function saveShowPerfHud(show: boolean) {
+  saveSetting(PERF_HUD_SETTING, show);
+}
+
+export class PerfMonitor {
+  private captures: number[] = [];
+  private inferences: { time: number; latencyMs: number }[] = [];
+  private droppedFrames = 0;
+  private inferring = false;
+  private countsCaptures = false;
+
+  recordCapture(now = performance.now()) {
+    this.countsCaptures = true;
+    if (this.inferring) this.droppedFrames++;
+    this.captures.push(now);
+    this.prune(now);
+  }
+
+  // Frames captured between this and endInference could not reach the model
+  startInference() {
+    this.inferring = true;
+  }
+
+  // Whether the inference completed, failed or was abandoned
+  endInference() {
+    this.inferring = false;
+  }
+
+  recordInference(latencyMs: number, now = performance.now()) {
+    this.inferences.push({ time: now, latencyMs });
+    this.prune(now);
+  }
+
+  sample(memory: TensorMemory | null, now = performance.now()): PerfSample {
+    this.prune(now);
+    return {
+      time: now,
+      captureFps: this.countsCaptures ? this.captures.length * 1000 / WINDOW_MS : null,
+      inferenceFps: this.inferences.length * 1000 / WINDOW_MS,
+      latencyMs: this.inferences.length > 0
+        ? this.inferences.reduce((sum, inference) => sum + inference.latencyMs, 0) / this.inferences.length
+        : null,
+      droppedFrames: this.countsCaptures ? this.droppedFrames : null,
+      memory,
+    };
+  }
+
+  // Only the window is kept, whether or not anything is sampling
+  private prune(now: number) {
+    const since = now - WINDOW_MS;
+    while (this.captures.length > 0 && this.captures[0] <= since) this.captures.shift();
+    while (this.inferences.length > 0 && this.inferences[0].time <= since) this.inferences.shift();
+  }
+
+  reset() {
+    this.captures = [];
+    this.inferences = [];
+    this.droppedFrames = 0;
+    this.inferring = false;
+    this.countsCaptures = false;
+  }
+}
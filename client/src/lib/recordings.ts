@@ -0,0 +1,111 @@
+import type { Detection } from './detection';
+import { pickWebmMimeType, type VideoTimelineEntry } from './videoExport';
+
+/**
+ * Recording of the live view: the annotated canvas encoded to WebM, optionally
+ * the raw camera feed, and a sidecar of the detections of every frame with
+ * times relative to the start of the recording.
+ */
+
+export interface Recording {
+  id: string;
+  name: string;
+  createdAt: Date;
+  durationMs: number;
+  annotated: Blob;
+  raw?: Blob;
+  frames: VideoTimelineEntry[];
+  /** Set on clips saved by a trigger rather than recorded by hand */
+  trigger?: RecordingTrigger;
+}
+
+export interface RecordingTrigger {
+  reason: string;
+  /** Time of the trigger from the start of the clip */
+  timeMs: number;
+  detections: Detection[];
+}
+
+// Canvas frames are only pushed when the detection loop redraws, so this is a ceiling
+const CAPTURE_FRAME_RATE = 30;
+
+/**
+ * Start recording `stream` to WebM. Returns a function that stops the
+ * recorder and resolves with the encoded video.
+ */
+export function recordStream(stream: MediaStream) {
+  const recorder = new MediaRecorder(stream, { mimeType: pickWebmMimeType() });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const stopped = new Promise<Blob>((resolve) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType }));
+  });
+  recorder.start(1000);
+
+  return () => {
+    if (recorder.state !== 'inactive') recorder.stop();
+    return stopped;
+  };
+}
+
+export class SessionRecorder {
+  private startedAt = performance.now();
+  private frames: VideoTimelineEntry[] = [];
+  private stopAnnotated: () => Promise<Blob>;
+  private stopRaw?: () => Promise<Blob>;
+
+  constructor(canvas: HTMLCanvasElement, rawStream?: MediaStream) {
+    this.stopAnnotated = recordStream(canvas.captureStream(CAPTURE_FRAME_RATE));
+    if (rawStream) {
+      this.stopRaw = recordStream(rawStream);
+    }
+  }
+
+  addFrame(detections: Detection[]) {
+    this.frames.push({ timeMs: performance.now() - this.startedAt, detections });
+  }
+
+  async stop(): Promise<Recording> {
+    const durationMs = performance.now() - this.startedAt;
+    const [annotated, raw] = await Promise.all([this.stopAnnotated(), this.stopRaw?.()]);
+    const createdAt = new Date();
+    return {
+      id: crypto.randomUUID(),
+      name: `Recording ${createdAt.toLocaleString()}`,
+      createdAt,
+      durationMs,
+      annotated,
+      raw,
+      frames: this.frames,
+    };
+  }
+}
+
+function sidecarDetection(d: Detection) {
+  return {
+    trackId: d.trackId,
+    class: d.class,
+    score: d.score,
+    bbox: { x: d.bbox[0], y: d.bbox[1], width: d.bbox[2], height: d.bbox[3] },
+  };
+}
+
+// The detections sidecar, as downloaded next to the video
+export function recordingSidecar(recording: Recording) {
+  return {
+    name: recording.name,
+    createdAt: recording.createdAt.toISOString(),
+    durationMs: recording.durationMs,
+    trigger: recording.trigger && {
+      reason: recording.trigger.reason,
+      timeMs: Math.round(recording.trigger.timeMs),
+      detections: recording.trigger.detections.map(sidecarDetection),
+    },
+    frames: recording.frames.map(frame => ({
+      timeMs: Math.round(frame.timeMs),
+      detections: frame.detections.map(sidecarDetection),
+    })),
+  };
+}
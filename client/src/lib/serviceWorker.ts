@@ -0,0 +1,63 @@
+import { toast } from 'sonner';
+
+/**
+ * Service worker registration. The worker is only built for production (see
+ * vitePluginServiceWorker in vite.config.ts), so registration is skipped in
+ * development where it would also cache stale modules.
+ */
+
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+function promptUpdate(worker: ServiceWorker) {
+  toast('A new version is available', {
+    duration: Infinity,
+    action: {
+      label: 'Reload',
+      onClick: () => worker.postMessage({ type: 'SKIP_WAITING' }),
+    },
+  });
+}
+
+function watchForUpdates(registration: ServiceWorkerRegistration) {
+  // A worker can already be waiting from a deploy seen in an earlier visit
+  if (registration.waiting && navigator.serviceWorker.controller) {
+    promptUpdate(registration.waiting);
+  }
+
+  registration.addEventListener('updatefound', () => {
+    const installing = registration.installing;
+    installing?.addEventListener('statechange', () => {
+      // Without a controller this is the first install, not an update
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) {
+        promptUpdate(installing);
+      }
+    });
+  });
+}
+
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) {
+    return;
+  }
+
+  // Reload once a new worker has taken over so the page runs the new build. On a
+  // first visit the worker claims a page that is already running this build, often
+  // mid-way through loading the model or starting the camera, so that is left alone
+  const hadController = Boolean(navigator.serviceWorker.controller);
+  let reloading = false;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloading || !hadController) return;
+    reloading = true;
+    window.location.reload();
+  });
+
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      watchForUpdates(registration);
+      setInterval(() => registration.update().catch(() => {}), UPDATE_CHECK_INTERVAL_MS);
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+    }
+  });
+}
@@ -0,0 +1,23 @@
+/**
+ * Small localStorage wrapper for user preferences. Values are stored as JSON
+ * under a common prefix; unreadable or missing entries fall back to defaults.
+ */
+
+const STORAGE_PREFIX = 'detect-ai:';
+
+export function loadSetting<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + key);
+    return stored === null ? fallback : (JSON.parse(stored) as T);
+  } catch {
+    return fallback;
+  }
+}
+
+export function saveSetting<T>(key: string, value: T) {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.warn(`Unable to save setting "${key}":`, error);
+  }
+}
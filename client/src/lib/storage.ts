@@ -0,0 +1,180 @@
+import { toast } from 'sonner';
+import type { Detection } from './detection';
+import type { CountingLine, LineCount } from './lineCounter';
+import type { Recording } from './recordings';
+import type { VideoTimelineEntry } from './videoExport';
+
+/**
+ * IndexedDB storage for results: live-view snapshots, batch results and
+ * recordings survive reloads, with their images and videos kept as Blobs
+ * rather than data URLs. Models are cached separately by modelCache.ts.
+ */
+
+export interface Snapshot {
+  id: string;
+  timestamp: Date;
+  /** Annotated frame as PNG */
+  image: Blob;
+  /** Unannotated camera frame as PNG; missing on snapshots saved before it was kept */
+  sourceImage?: Blob;
+  detections: Detection[];
+}
+
+export interface ProcessedFile {
+  id: string;
+  name: string;
+  type: 'image' | 'video';
+  detections: Detection[];
+  /**
+   * Every detection of an image down to the evaluation threshold, for scoring
+   * against ground truth; missing from results stored before it was kept
+   */
+  candidates?: Detection[];
+  /** Annotated image, or the last sampled frame of a video, as PNG */
+  image?: Blob;
+  /** Unannotated image, kept so images can be redrawn when zones change */
+  sourceImage?: Blob;
+  width: number;
+  height: number;
+  timestamp: Date;
+  /** Line-crossing totals for videos, using the counting lines from the live view */
+  lineCounts?: { line: CountingLine; count: LineCount }[];
+  /** Original video file, kept for rendering an annotated copy */
+  source?: Blob;
+  /**
+   * Detections of every sampled video frame. For videos `detections` holds
+   * one entry per tracked object, as last seen, plus any untracked ones.
+   */
+  timeline?: VideoTimelineEntry[];
+}
+
+const DB_NAME = 'detect-ai-data';
+const DB_VERSION = 1;
+const STORE_NAMES = ['snapshots', 'batchResults', 'recordings'] as const;
+// Warn once per session when this much of the quota is used
+const QUOTA_WARNING_FRACTION = 0.8;
+
+type StoreName = typeof STORE_NAMES[number];
+
+let database: Promise<IDBDatabase> | null = null;
+let hasWarnedAboutQuota = false;
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase() {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      for (const name of STORE_NAMES) {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+async function transaction(name: StoreName, mode: IDBTransactionMode, run: (store: IDBObjectStore) => void) {
+  const db = await openDatabase();
+  const tx = db.transaction(name, mode);
+  run(tx.objectStore(name));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function createStore<T extends { id: string }>(name: StoreName) {
+  return {
+    async getAll(): Promise<T[]> {
+      const db = await openDatabase();
+      return promisify<T[]>(db.transaction(name).objectStore(name).getAll());
+    },
+    async put(value: T) {
+      await transaction(name, 'readwrite', store => store.put(value));
+      checkStorageQuota();
+    },
+    async delete(ids: string[]) {
+      await transaction(name, 'readwrite', store => ids.forEach(id => store.delete(id)));
+    },
+    async clear() {
+      await transaction(name, 'readwrite', store => store.clear());
+    },
+  };
+}
+
+export const snapshotStore = createStore<Snapshot>('snapshots');
+export const batchResultStore = createStore<ProcessedFile>('batchResults');
+export const recordingStore = createStore<Recording>('recordings');
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+export async function getStorageUsage(): Promise<StorageUsage | null> {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+}
+
+export function isNearQuota({ usage, quota }: StorageUsage) {
+  return quota > 0 && usage / quota >= QUOTA_WARNING_FRACTION;
+}
+
+async function checkStorageQuota() {
+  if (hasWarnedAboutQuota) return;
+  const estimate = await getStorageUsage().catch(() => null);
+  if (estimate && isNearQuota(estimate)) {
+    hasWarnedAboutQuota = true;
+    toast.warning('Storage is almost full', {
+      description: 'Delete old snapshots, results or recordings to keep saving new ones.',
+    });
+  }
+}
+
+// Reports a failed save; the item stays in memory for this session
+export function reportStorageError(error: unknown) {
+  console.error('Error saving to storage:', error);
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    toast.error('Storage is full', { description: 'This item will be lost on reload. Delete old items to free space.' });
+  } else {
+    toast.error('Unable to save to storage');
+  }
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png', quality?: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Unable to encode canvas'))), type, quality);
+  });
+}
+
+// Flipped horizontally when `mirror` is set, to match a mirrored live view
+export function captureVideoFrame(video: HTMLVideoElement, type = 'image/png', mirror = false) {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  const ctx = canvas.getContext('2d')!;
+  if (mirror) {
+    ctx.setTransform(-1, 0, 0, 1, canvas.width, 0);
+  }
+  ctx.drawImage(video, 0, 0);
+  return canvasToBlob(canvas, type);
+}
+
+// Sort newest first, as the app lists stored items
+export function byNewest<T>(timeOf: (item: T) => Date) {
+  return (a: T, b: T) => timeOf(b).getTime() - timeOf(a).getTime();
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import type { Detection } from './detection';
+import { attachTrackIds, iou, MultiObjectTracker } from './tracker';
+
+const FRAME_MS = 1000 / 30;
+
+const detection = (cls: string, x: number, y = 100): Detection => ({ class: cls, score: 0.9, bbox: [x, y, 50, 50] });
+
+describe('iou', () => {
+  it('is the overlap over the union', () => {
+    expect(iou([0, 0, 10, 10], [0, 0, 10, 10])).toBe(1);
+    expect(iou([0, 0, 10, 10], [5, 0, 10, 10])).toBeCloseTo(50 / 150);
+    expect(iou([0, 0, 10, 10], [20, 20, 10, 10])).toBe(0);
+  });
+});
+
+describe('MultiObjectTracker', () => {
+  it('reports a track once it is confirmed and keeps its ID as it moves', () => {
+    const tracker = new MultiObjectTracker();
+
+    expect(tracker.update([detection('person', 0)], 0)).toEqual([]);
+
+    const ids = [1, 2, 3, 4, 5].map(frame => {
+      const tracked = tracker.update([detection('person', frame * 10)], frame * FRAME_MS);
+      expect(tracked).toHaveLength(1);
+      return tracked[0].trackId;
+    });
+    expect(new Set(ids)).toEqual(new Set([ids[0]]));
+  });
+
+  it('keeps separate IDs for separate objects', () => {
+    const tracker = new MultiObjectTracker();
+    let tracked: Detection[] = [];
+    for (let frame = 0; frame < 4; frame++) {
+      tracked = tracker.update([detection('person', frame * 5), detection('person', 400 - frame * 5)], frame * FRAME_MS);
+    }
+
+    const left = tracked.find(d => d.bbox[0] < 200)!;
+    const right = tracked.find(d => d.bbox[0] > 200)!;
+    expect(left.trackId).not.toBe(right.trackId);
+
+    const next = tracker.update([detection('person', 20), detection('person', 380)], 4 * FRAME_MS);
+    expect(next.find(d => d.bbox[0] < 200)!.trackId).toBe(left.trackId);
+    expect(next.find(d => d.bbox[0] > 200)!.trackId).toBe(right.trackId);
+  });
+
+  it('does not match detections of another class', () => {
+    const tracker = new MultiObjectTracker();
+    tracker.update([detection('person', 0)], 0);
+    const [person] = tracker.update([detection('person', 0)], FRAME_MS);
+    tracker.update([detection('dog', 0)], 2 * FRAME_MS);
+    const tracked = tracker.update([detection('dog', 0)], 3 * FRAME_MS);
+
+    expect(tracked.find(d => d.class === 'dog')!.trackId).not.toBe(person.trackId);
+  });
+
+  it('carries a track through missed frames at its predicted position', () => {
+    const tracker = new MultiObjectTracker();
+    for (let frame = 0; frame < 6; frame++) {
+      tracker.update([detection('car', frame * 10)], frame * FRAME_MS);
+    }
+    const [before] = tracker.update([detection('car', 60)], 6 * FRAME_MS);
+
+    const [missed] = tracker.update([], 7 * FRAME_MS);
+    expect(missed.trackId).toBe(before.trackId);
+    expect(missed.bbox[0]).toBeGreaterThan(before.bbox[0]);
+
+    const [resumed] = tracker.update([detection('car', 80)], 8 * FRAME_MS);
+    expect(resumed.trackId).toBe(before.trackId);
+  });
+
+  it('extrapolates between detections without changing the tracks', () => {
+    const tracker = new MultiObjectTracker();
+    for (let frame = 0; frame < 6; frame++) {
+      tracker.update([detection('car', frame * 10)], frame * FRAME_MS);
+    }
+    const [last] = tracker.update([detection('car', 60)], 6 * FRAME_MS);
+
+    const [predicted] = tracker.predict(6.5 * FRAME_MS);
+    expect(predicted.trackId).toBe(last.trackId);
+    expect(predicted.bbox[0]).toBeGreaterThan(last.bbox[0]);
+    expect(tracker.predict(6 * FRAME_MS)[0].bbox).toEqual(last.bbox);
+  });
+});
+
+describe('attachTrackIds', () => {
+  it('gives the model\'s boxes the IDs of the tracks they overlap', () => {
+    const predictions = [detection('person', 0), detection('person', 200), detection('dog', 400)];
+    const tracked: Detection[] = [
+      { ...detection('person', 204), trackId: 7 },
+      { ...detection('person', 3), trackId: 3 },
+      { ...detection('cat', 400), trackId: 9 },
+    ];
+
+    expect(attachTrackIds(predictions, tracked)).toEqual([
+      { ...predictions[0], trackId: 3 },
+      { ...predictions[1], trackId: 7 },
+      predictions[2],
+    ]);
+  });
+
+  it('gives each track to one detection at most', () => {
+    const predictions = [detection('car', 0), detection('car', 2)];
+    const [first, second] = attachTrackIds(predictions, [{ ...detection('car', 2), trackId: 1 }]);
+
+    expect(first.trackId).toBeUndefined();
+    expect(second.trackId).toBe(1);
+  });
+});
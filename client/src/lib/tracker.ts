@@ -0,0 +1,264 @@
+import type { Detection } from './detection';
+
+/**
+ * Multi-object tracker for the live view. Detections are associated with
+ * existing tracks by IoU (falling back to centroid distance for small or fast
+ * objects), each track's box follows a constant-velocity Kalman filter, and
+ * tracks survive a few missed frames so objects keep their ID through brief
+ * occlusions or low-confidence frames.
+ */
+
+export interface TrackerOptions {
+  /** Minimum IoU for a detection to continue a track */
+  minIoU: number;
+  /** Max centroid distance, relative to the track's box diagonal, when IoU is too low */
+  maxCentroidDistance: number;
+  /** Consecutive hits before a track is reported */
+  minHits: number;
+  /** Frames a track is kept (and predicted forward) without a matching detection */
+  maxMisses: number;
+}
+
+export const DEFAULT_TRACKER_OPTIONS: TrackerOptions = {
+  minIoU: 0.3,
+  maxCentroidDistance: 0.5,
+  minHits: 2,
+  maxMisses: 10,
+};
+
+// Box filter noise: acceleration in px/s² and measurement jitter in px
+const PROCESS_NOISE = 200;
+const MEASUREMENT_NOISE = 8;
+// Frame interval assumed for the first update and capped for long stalls
+const DEFAULT_DT = 1 / 30;
+const MAX_DT = 1;
+
+/**
+ * One-dimensional constant-velocity Kalman filter. A box is tracked as four
+ * independent axes (centre x/y, width, height), which is plenty for boxes
+ * that move smoothly between frames.
+ */
+class KalmanAxis {
+  private velocity = 0;
+  // Covariance of [position, velocity]
+  private p00 = MEASUREMENT_NOISE ** 2;
+  private p01 = 0;
+  private p11 = PROCESS_NOISE ** 2;
+
+  constructor(public position: number) {}
+
+  // Position `dt` seconds ahead, leaving the filter as it is
+  extrapolate(dt: number) {
+    return this.position + this.velocity * dt;
+  }
+
+  predict(dt: number) {
+    this.position += this.velocity * dt;
+    // P = F P F^T + Q for F = [[1, dt], [0, 1]] and white-noise acceleration
+    const q = PROCESS_NOISE ** 2;
+    this.p00 += dt * (2 * this.p01 + dt * this.p11) + (q * dt ** 4) / 4;
+    this.p01 += dt * this.p11 + (q * dt ** 3) / 2;
+    this.p11 += q * dt ** 2;
+  }
+
+  update(measurement: number) {
+    const innovation = measurement - this.position;
+    const s = this.p00 + MEASUREMENT_NOISE ** 2;
+    const k0 = this.p00 / s;
+    const k1 = this.p01 / s;
+    this.position += k0 * innovation;
+    this.velocity += k1 * innovation;
+    this.p11 -= k1 * this.p01;
+    this.p01 -= k1 * this.p00;
+    this.p00 -= k0 * this.p00;
+  }
+}
+
+interface Track {
+  id: number;
+  class: string;
+  score: number;
+  axes: [KalmanAxis, KalmanAxis, KalmanAxis, KalmanAxis];
+  hits: number;
+  misses: number;
+}
+
+function toCentreBox([x, y, width, height]: Detection['bbox']) {
+  return [x + width / 2, y + height / 2, width, height];
+}
+
+function trackBox(track: Track, dt = 0): Detection['bbox'] {
+  const [cx, cy, width, height] = track.axes.map(axis => axis.extrapolate(dt));
+  const w = Math.max(width, 1);
+  const h = Math.max(height, 1);
+  return [cx - w / 2, cy - h / 2, w, h];
+}
+
+export function iou(a: Detection['bbox'], b: Detection['bbox']) {
+  const x1 = Math.max(a[0], b[0]);
+  const y1 = Math.max(a[1], b[1]);
+  const x2 = Math.min(a[0] + a[2], b[0] + b[2]);
+  const y2 = Math.min(a[1] + a[3], b[1] + b[3]);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a[2] * a[3] + b[2] * b[3] - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * `detections` as the model reported them, each given the ID of the tracked
+ * box of its class it overlaps most, for when the tracker's smoothed boxes
+ * should not replace the originals. Pairs are taken by highest overlap first;
+ * detections no reported track covers stay untracked.
+ */
+export function attachTrackIds(detections: Detection[], tracked: Detection[], minIoU = DEFAULT_TRACKER_OPTIONS.minIoU): Detection[] {
+  const pairs = detections.flatMap((detection, d) => tracked
+    .map((track, t) => ({ d, t, overlap: detection.class === track.class ? iou(detection.bbox, track.bbox) : 0 }))
+    .filter(pair => pair.overlap >= minIoU)
+  ).sort((a, b) => b.overlap - a.overlap);
+
+  const trackIds = new Map<number, number>();
+  const usedTracks = new Set<number>();
+  for (const { d, t } of pairs) {
+    if (trackIds.has(d) || usedTracks.has(t)) continue;
+    trackIds.set(d, tracked[t].trackId!);
+    usedTracks.add(t);
+  }
+  return detections.map((detection, d) => (trackIds.has(d) ? { ...detection, trackId: trackIds.get(d) } : detection));
+}
+
+export class MultiObjectTracker {
+  private tracks: Track[] = [];
+  private nextId = 1;
+  private lastTimestamp: number | null = null;
+  private options: TrackerOptions;
+
+  constructor(options: Partial<TrackerOptions> = {}) {
+    this.options = { ...DEFAULT_TRACKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Advance every track to `timestamp` (ms), associate the frame's detections
+   * and return the confirmed tracks as detections carrying their `trackId`.
+   * Tracks that missed this frame are reported at their predicted position.
+   */
+  update(detections: Detection[], timestamp: number): Detection[] {
+    const dt = this.lastTimestamp === null
+      ? DEFAULT_DT
+      : Math.min(Math.max((timestamp - this.lastTimestamp) / 1000, 0), MAX_DT);
+    this.lastTimestamp = timestamp;
+
+    this.tracks.forEach(track => track.axes.forEach(axis => axis.predict(dt)));
+
+    const matchedTracks = new Set<Track>();
+    const matchedDetections = new Set<Detection>();
+    for (const [track, detection] of this.associate(detections)) {
+      const measurement = toCentreBox(detection.bbox);
+      track.axes.forEach((axis, i) => axis.update(measurement[i]));
+      track.score = detection.score;
+      track.hits++;
+      track.misses = 0;
+      matchedTracks.add(track);
+      matchedDetections.add(detection);
+    }
+
+    this.tracks.forEach(track => {
+      if (!matchedTracks.has(track)) {
+        track.misses++;
+        // A track that never got confirmed is most likely a false positive
+        if (track.hits < this.options.minHits) {
+          track.misses = Infinity;
+        }
+      }
+    });
+    this.tracks = this.tracks.filter(track => track.misses <= this.options.maxMisses);
+
+    detections
+      .filter(detection => !matchedDetections.has(detection))
+      .forEach(detection => {
+        const [cx, cy, width, height] = toCentreBox(detection.bbox);
+        this.tracks.push({
+          id: this.nextId++,
+          class: detection.class,
+          score: detection.score,
+          axes: [new KalmanAxis(cx), new KalmanAxis(cy), new KalmanAxis(width), new KalmanAxis(height)],
+          hits: 1,
+          misses: 0,
+        });
+      });
+
+    return this.confirmed(0);
+  }
+
+  /**
+   * The confirmed tracks moved along their velocity to `timestamp` (ms),
+   * without updating them; used to draw frames between detections.
+   */
+  predict(timestamp: number): Detection[] {
+    const dt = this.lastTimestamp === null
+      ? 0
+      : Math.min(Math.max((timestamp - this.lastTimestamp) / 1000, 0), MAX_DT);
+    return this.confirmed(dt);
+  }
+
+  reset() {
+    this.tracks = [];
+    this.nextId = 1;
+    this.lastTimestamp = null;
+  }
+
+  private confirmed(dt: number): Detection[] {
+    return this.tracks
+      .filter(track => track.hits >= this.options.minHits)
+      .map(track => ({
+        class: track.class,
+        score: track.score,
+        bbox: trackBox(track, dt),
+        trackId: track.id,
+      }));
+  }
+
+  /**
+   * Greedy association: every same-class pair is scored by IoU, or by
+   * centroid proximity (always ranked below any IoU match) when the boxes
+   * barely overlap, and the best pairs are taken first.
+   */
+  private associate(detections: Detection[]): [Track, Detection][] {
+    const { minIoU, maxCentroidDistance } = this.options;
+    const candidates: { track: Track; detection: Detection; score: number }[] = [];
+
+    for (const track of this.tracks) {
+      const predicted = trackBox(track);
+      const [px, py, pw, ph] = toCentreBox(predicted);
+      const diagonal = Math.hypot(pw, ph);
+
+      for (const detection of detections) {
+        if (detection.class !== track.class) continue;
+
+        const overlap = iou(predicted, detection.bbox);
+        if (overlap >= minIoU) {
+          candidates.push({ track, detection, score: 1 + overlap });
+          continue;
+        }
+
+        const [dx, dy] = toCentreBox(detection.bbox);
+        const distance = Math.hypot(dx - px, dy - py) / diagonal;
+        if (distance <= maxCentroidDistance) {
+          candidates.push({ track, detection, score: 1 - distance / maxCentroidDistance });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+
+    const usedTracks = new Set<Track>();
+    const usedDetections = new Set<Detection>();
+    const matches: [Track, Detection][] = [];
+    for (const { track, detection } of candidates) {
+      if (usedTracks.has(track) || usedDetections.has(detection)) continue;
+      usedTracks.add(track);
+      usedDetections.add(detection);
+      matches.push([track, detection]);
+    }
+    return matches;
+  }
+}
@@ -0,0 +1,155 @@
+import { drawDetections, type Detection } from './detection';
+import { watchVideoFrames } from './videoSampling';
+
+/**
+ * Annotated video export. The source video is played back into a canvas with
+ * the detections burned into every frame and the canvas stream is encoded to
+ * WebM with MediaRecorder, so rendering runs in real time.
+ */
+
+export interface VideoTimelineEntry {
+  /** Media time of the sampled frame */
+  timeMs: number;
+  detections: Detection[];
+}
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export function supportsCanvasRecording() {
+  return typeof MediaRecorder !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype;
+}
+
+export function pickWebmMimeType() {
+  return WEBM_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+}
+
+// Every object in a timeline once: tracked ones as last seen, untracked ones per sample
+export function lastSeenDetections(timeline: VideoTimelineEntry[]) {
+  const lastSeen = new Map<number | string, Detection>();
+  timeline.forEach(entry => entry.detections.forEach((d, i) => lastSeen.set(d.trackId ?? `${entry.timeMs}-${i}`, d)));
+  return Array.from(lastSeen.values());
+}
+
+function lerp(a: number, b: number, t: number) {
+  return a + (b - a) * t;
+}
+
+/**
+ * Detections at an arbitrary media time. Tracked objects present in both
+ * neighbouring samples have their boxes interpolated; everything else is
+ * held from the previous sample.
+ */
+export function detectionsAt(timeline: VideoTimelineEntry[], timeMs: number): Detection[] {
+  if (timeline.length === 0) return [];
+
+  const nextIndex = timeline.findIndex(entry => entry.timeMs > timeMs);
+  if (nextIndex === 0) return timeline[0].detections;
+  if (nextIndex === -1) return timeline[timeline.length - 1].detections;
+
+  const previous = timeline[nextIndex - 1];
+  const next = timeline[nextIndex];
+  const t = (timeMs - previous.timeMs) / (next.timeMs - previous.timeMs);
+
+  return previous.detections.map(detection => {
+    const match = detection.trackId === undefined
+      ? undefined
+      : next.detections.find(d => d.trackId === detection.trackId);
+    if (!match) return detection;
+    return {
+      ...detection,
+      bbox: detection.bbox.map((value, i) => lerp(value, match.bbox[i], t)) as Detection['bbox'],
+    };
+  });
+}
+
+function abortError() {
+  return new DOMException('Video export was cancelled', 'AbortError');
+}
+
+/**
+ * Render `source` with the timeline's detections burned in. Progress is
+ * reported between 0 and 1; aborting `signal` stops rendering and rejects
+ * with an AbortError.
+ */
+export async function renderAnnotatedVideo(
+  source: Blob,
+  timeline: VideoTimelineEntry[],
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> {
+  if (signal?.aborted) throw abortError();
+
+  const url = URL.createObjectURL(source);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.src = url;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error('Unable to decode video'));
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d')!;
+
+    const recorder = new MediaRecorder(canvas.captureStream(), { mimeType: pickWebmMimeType() });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    const drawFrame = () => {
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      drawDetections(ctx, detectionsAt(timeline, video.currentTime * 1000));
+      onProgress?.(video.duration ? video.currentTime / video.duration : 0);
+    };
+
+    return await new Promise<Blob>((resolve, reject) => {
+      const stopWatching = watchVideoFrames(video, drawFrame, true);
+      let finished = false;
+
+      const finish = (error?: Error) => {
+        if (finished) return;
+        finished = true;
+        stopWatching();
+        signal?.removeEventListener('abort', onAbort);
+        video.pause();
+        const settle = () => {
+          if (error) {
+            reject(error);
+          } else {
+            onProgress?.(1);
+            resolve(new Blob(chunks, { type: recorder.mimeType }));
+          }
+        };
+        if (recorder.state !== 'inactive') {
+          recorder.onstop = settle;
+          recorder.stop();
+        } else {
+          settle();
+        }
+      };
+      const onAbort = () => finish(abortError());
+
+      signal?.addEventListener('abort', onAbort);
+      video.onended = () => {
+        drawFrame();
+        finish();
+      };
+      video.onerror = () => finish(new Error('Video playback failed'));
+
+      // Paint the first frame before recording starts so the clip never opens black
+      drawFrame();
+      recorder.start(1000);
+      video.play().catch(error => finish(error instanceof Error ? error : new Error(String(error))));
+    });
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,277 @@
+import { loadSetting, saveSetting } from './settings';
+
+/**
+ * Frame sampling for video files. Frames are decoded by seeking a video
+ * element and waiting for `seeked`, so every sample is the frame actually
+ * shown at its media time rather than whatever happened to be decoded.
+ */
+
+export type SamplingStrategy =
+  | { kind: 'interval'; seconds: number }
+  | { kind: 'frames'; every: number }
+  | { kind: 'count'; total: number }
+  /** Sample when the picture changes by more than `threshold` (0–1 mean pixel difference) */
+  | { kind: 'scene'; threshold: number };
+
+export type SamplingKind = SamplingStrategy['kind'];
+
+export const DEFAULT_SAMPLING: SamplingStrategy = { kind: 'interval', seconds: 0.5 };
+
+export const SAMPLING_KINDS: { value: SamplingKind; label: string; unit: string; defaultValue: number }[] = [
+  { value: 'interval', label: 'Every N seconds', unit: 's', defaultValue: 0.5 },
+  { value: 'frames', label: 'Every N frames', unit: 'frames', defaultValue: 15 },
+  { value: 'count', label: 'Fixed number of samples', unit: 'samples', defaultValue: 100 },
+  { value: 'scene', label: 'On scene change', unit: '% change', defaultValue: 12 },
+];
+
+const SAMPLING_SETTING = 'videoSampling';
+const FALLBACK_FRAME_RATE = 30;
+// Scene detection compares small grayscale thumbnails, scanned at this rate
+const SCENE_SCAN_INTERVAL_SEC = 0.25;
+const SCENE_THUMBNAIL_SIZE = 32;
+
+export function loadSamplingStrategy() {
+  return loadSetting<SamplingStrategy>(SAMPLING_SETTING, DEFAULT_SAMPLING);
+}
+
+export function saveSamplingStrategy(strategy: SamplingStrategy) {
+  saveSetting(SAMPLING_SETTING, strategy);
+}
+
+// The single numeric parameter of a strategy, as edited in the UI
+export function samplingValue(strategy: SamplingStrategy) {
+  switch (strategy.kind) {
+    case 'interval': return strategy.seconds;
+    case 'frames': return strategy.every;
+    case 'count': return strategy.total;
+    case 'scene': return Math.round(strategy.threshold * 100);
+  }
+}
+
+export function createSamplingStrategy(kind: SamplingKind, value: number): SamplingStrategy {
+  switch (kind) {
+    case 'interval': return { kind, seconds: Math.max(value, 0.04) };
+    case 'frames': return { kind, every: Math.max(Math.round(value), 1) };
+    case 'count': return { kind, total: Math.max(Math.round(value), 1) };
+    case 'scene': return { kind, threshold: Math.min(Math.max(value, 1), 100) / 100 };
+  }
+}
+
+function abortError() {
+  return new DOMException('Video processing was cancelled', 'AbortError');
+}
+
+function waitForEvent(target: HTMLVideoElement, type: string) {
+  return new Promise<void>((resolve, reject) => {
+    const onEvent = () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      target.removeEventListener(type, onEvent);
+      reject(new Error('Unable to decode video'));
+    };
+    target.addEventListener(type, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+}
+
+export async function seekTo(video: HTMLVideoElement, seconds: number) {
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = seconds;
+  await seeked;
+}
+
+/**
+ * Call `onFrame` for every frame `video` presents. Without
+ * requestVideoFrameCallback, animation frames stand in when `fallback` is set
+ * and nothing is called otherwise. Returns a function that stops watching.
+ */
+export function watchVideoFrames(video: HTMLVideoElement, onFrame: (now: number) => void, fallback = false) {
+  let active = true;
+  let handle = 0;
+  if ('requestVideoFrameCallback' in video) {
+    const next = (now: number) => {
+      if (!active) return;
+      onFrame(now);
+      if (active) handle = video.requestVideoFrameCallback(next);
+    };
+    handle = video.requestVideoFrameCallback(next);
+    return () => {
+      active = false;
+      video.cancelVideoFrameCallback(handle);
+    };
+  }
+  if (!fallback) {
+    return () => {};
+  }
+
+  const next = (now: number) => {
+    if (!active) return;
+    onFrame(now);
+    if (active) handle = requestAnimationFrame(next);
+  };
+  handle = requestAnimationFrame(next);
+  return () => {
+    active = false;
+    cancelAnimationFrame(handle);
+  };
+}
+
+/**
+ * Open a video file for frame-accurate seeking. Files written by
+ * MediaRecorder report an infinite duration until the end has been seeked to,
+ * so that is forced here.
+ */
+export async function openVideo(source: Blob) {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = 'auto';
+  const url = URL.createObjectURL(source);
+  const loaded = waitForEvent(video, 'loadeddata');
+  video.src = url;
+  await loaded;
+
+  if (!Number.isFinite(video.duration)) {
+    await seekTo(video, Number.MAX_SAFE_INTEGER);
+    await seekTo(video, 0);
+  }
+
+  return {
+    video,
+    close: () => {
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    },
+  };
+}
+
+/**
+ * Measure the frame rate from the media times of a few decoded frames.
+ * Browsers do not expose it directly; falls back to 30 fps when
+ * requestVideoFrameCallback is unavailable.
+ */
+export async function estimateFrameRate(video: HTMLVideoElement, frames = 10): Promise<number> {
+  if (!('requestVideoFrameCallback' in video)) {
+    return FALLBACK_FRAME_RATE;
+  }
+
+  const mediaTimes: number[] = [];
+  let frameHandle = 0;
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await new Promise<void>((resolve) => {
+      const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        mediaTimes.push(metadata.mediaTime);
+        if (mediaTimes.length >= frames || video.ended) {
+          resolve();
+        } else {
+          frameHandle = video.requestVideoFrameCallback(onFrame);
+        }
+      };
+      frameHandle = video.requestVideoFrameCallback(onFrame);
+      video.play().catch(() => resolve());
+      // Give up on videos too short or too slow to decode
+      timeout = setTimeout(resolve, 2000);
+    });
+  } finally {
+    // Whichever finished first, neither may fire later
+    clearTimeout(timeout);
+    video.cancelVideoFrameCallback(frameHandle);
+  }
+  video.pause();
+  await seekTo(video, 0);
+
+  const deltas = mediaTimes
+    .slice(1)
+    .map((time, i) => time - mediaTimes[i])
+    .filter(delta => delta > 0)
+    .sort((a, b) => a - b);
+  if (deltas.length === 0) {
+    return FALLBACK_FRAME_RATE;
+  }
+  return 1 / deltas[Math.floor(deltas.length / 2)];
+}
+
+// Media times to sample for the time-based strategies
+function sampleTimes(strategy: Exclude<SamplingStrategy, { kind: 'scene' }>, duration: number, frameRate: number) {
+  const step = strategy.kind === 'interval'
+    ? strategy.seconds
+    : strategy.kind === 'frames'
+      ? strategy.every / frameRate
+      : duration / strategy.total;
+
+  const times: number[] = [];
+  for (let t = 0; t < duration; t += step) {
+    times.push(t);
+  }
+  return times;
+}
+
+function createThumbnailer() {
+  const canvas = document.createElement('canvas');
+  canvas.width = SCENE_THUMBNAIL_SIZE;
+  canvas.height = SCENE_THUMBNAIL_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+
+  return (video: HTMLVideoElement) => {
+    ctx.drawImage(video, 0, 0, SCENE_THUMBNAIL_SIZE, SCENE_THUMBNAIL_SIZE);
+    const { data } = ctx.getImageData(0, 0, SCENE_THUMBNAIL_SIZE, SCENE_THUMBNAIL_SIZE);
+    const gray = new Float32Array(SCENE_THUMBNAIL_SIZE * SCENE_THUMBNAIL_SIZE);
+    for (let i = 0; i < gray.length; i++) {
+      gray[i] = (data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114) / 255;
+    }
+    return gray;
+  };
+}
+
+function meanDifference(a: Float32Array, b: Float32Array) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += Math.abs(a[i] - b[i]);
+  }
+  return sum / a.length;
+}
+
+/**
+ * Seek through `video` according to `strategy`, calling `onSample` with the
+ * media time once each sampled frame is on screen. Progress is reported
+ * between 0 and 1; aborting `signal` rejects with an AbortError.
+ */
+export async function sampleVideo(
+  video: HTMLVideoElement,
+  strategy: SamplingStrategy,
+  onSample: (timeMs: number) => Promise<void>,
+  options: { onProgress?: (fraction: number) => void; signal?: AbortSignal } = {}
+) {
+  const { onProgress, signal } = options;
+  const duration = video.duration;
+
+  if (strategy.kind === 'scene') {
+    const thumbnail = createThumbnailer();
+    let reference: Float32Array | null = null;
+    for (let t = 0; t < duration; t += SCENE_SCAN_INTERVAL_SEC) {
+      if (signal?.aborted) throw abortError();
+      await seekTo(video, t);
+      const current = thumbnail(video);
+      if (!reference || meanDifference(reference, current) >= strategy.threshold) {
+        reference = current;
+        await onSample(video.currentTime * 1000);
+      }
+      onProgress?.(t / duration);
+    }
+  } else {
+    const frameRate = strategy.kind === 'frames' ? await estimateFrameRate(video) : FALLBACK_FRAME_RATE;
+    const times = sampleTimes(strategy, duration, frameRate);
+    for (let i = 0; i < times.length; i++) {
+      if (signal?.aborted) throw abortError();
+      await seekTo(video, times[i]);
+      await onSample(video.currentTime * 1000);
+      onProgress?.((i + 1) / times.length);
+    }
+  }
+
+  onProgress?.(1);
+}
@@ -0,0 +1,64 @@
+import { datasetBaseName, type DatasetImage } from './dataset';
+import { createZip } from './zip';
+
+/**
+ * Pascal VOC export: one XML annotation per image under `Annotations/`, the
+ * images under `JPEGImages/` (whatever their format, as VOC tooling expects
+ * that folder name) and the class list in `labels.txt`.
+ */
+
+function escapeXml(value: string) {
+  return value.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[char]!);
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+export function buildVocAnnotation(image: DatasetImage) {
+  const objects = image.detections.map(d => {
+    const [x, y, width, height] = d.bbox;
+    // VOC boxes are 1-based inclusive pixel coordinates
+    const xmin = clamp(Math.round(x) + 1, 1, image.width);
+    const ymin = clamp(Math.round(y) + 1, 1, image.height);
+    const xmax = clamp(Math.round(x + width), xmin, image.width);
+    const ymax = clamp(Math.round(y + height), ymin, image.height);
+    const truncated = x <= 0 || y <= 0 || x + width >= image.width || y + height >= image.height;
+    return `  <object>
+    <name>${escapeXml(d.class)}</name>
+    <pose>Unspecified</pose>
+    <truncated>${truncated ? 1 : 0}</truncated>
+    <difficult>0</difficult>
+    <bndbox>
+      <xmin>${xmin}</xmin>
+      <ymin>${ymin}</ymin>
+      <xmax>${xmax}</xmax>
+      <ymax>${ymax}</ymax>
+    </bndbox>
+  </object>`;
+  });
+
+  return `<annotation>
+  <folder>JPEGImages</folder>
+  <filename>${escapeXml(image.fileName)}</filename>
+  <source>
+    <database>Detect AI</database>
+  </source>
+  <size>
+    <width>${image.width}</width>
+    <height>${image.height}</height>
+    <depth>3</depth>
+  </size>
+  <segmented>0</segmented>
+${objects.join('\n')}
+</annotation>
+`;
+}
+
+export function createVocZip(images: DatasetImage[], classes: string[]) {
+  return createZip([
+    { name: 'labels.txt', data: classes.join('\n') + '\n' },
+    ...images.flatMap(image => [
+      { name: `Annotations/${datasetBaseName(image.fileName)}.xml`, data: buildVocAnnotation(image) },
+      { name: `JPEGImages/${image.fileName}`, data: image.image },
+    ]),
+  ]);
+}
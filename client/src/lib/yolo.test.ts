@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import type { Detection } from './detection';
+import { buildYoloLabels } from './yolo';
+
+const image = (detections: Detection[]) => ({
+  fileName: '000001.png',
+  width: 200,
+  height: 100,
+  image: new Blob(),
+  detections,
+});
+
+const detection = (cls: string, bbox: Detection['bbox']): Detection => ({ class: cls, score: 0.9, bbox });
+
+describe('buildYoloLabels', () => {
+  it('writes class index, centre and size normalized to the image', () => {
+    const labels = buildYoloLabels(image([detection('car', [50, 25, 100, 50])]), ['person', 'car']);
+
+    expect(labels).toBe('1 0.500000 0.500000 0.500000 0.500000');
+  });
+
+  it('clips boxes reaching past the edges', () => {
+    const labels = buildYoloLabels(image([detection('person', [-20, 50, 60, 80])]), ['person']);
+
+    expect(labels).toBe('0 0.100000 0.750000 0.200000 0.500000');
+  });
+
+  it('skips boxes with nothing left inside the image', () => {
+    const labels = buildYoloLabels(image([
+      detection('person', [210, 10, 30, 30]),
+      detection('person', [10, -40, 30, 40]),
+      detection('person', [10, 10, 30, 30]),
+    ]), ['person']);
+
+    expect(labels.split('\n')).toEqual(['0 0.125000 0.250000 0.150000 0.300000']);
+  });
+});
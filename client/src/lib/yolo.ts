@@ -0,0 +1,54 @@
+import { datasetBaseName, type DatasetImage } from './dataset';
+import { createZip } from './zip';
+
+/**
+ * YOLO export: one `labels/<image>.txt` per image with a
+ * `class x_center y_center width height` line per box, normalized to 0–1,
+ * next to the images under `images/`, plus `classes.txt` and a `data.yaml`
+ * for Ultralytics-style training.
+ */
+
+const round = (value: number) => value.toFixed(6);
+
+export function buildYoloLabels(image: DatasetImage, classes: string[]) {
+  return image.detections
+    .flatMap(d => {
+      // Clip to the image first so centres stay inside it
+      const x = Math.max(d.bbox[0], 0);
+      const y = Math.max(d.bbox[1], 0);
+      const width = Math.min(d.bbox[0] + d.bbox[2], image.width) - x;
+      const height = Math.min(d.bbox[1] + d.bbox[3], image.height) - y;
+      // Nothing of the box is left inside the image
+      if (width <= 0 || height <= 0) return [];
+      return [[
+        classes.indexOf(d.class),
+        round((x + width / 2) / image.width),
+        round((y + height / 2) / image.height),
+        round(width / image.width),
+        round(height / image.height),
+      ].join(' ')];
+    })
+    .join('\n');
+}
+
+function dataYaml(classes: string[]) {
+  return [
+    'path: .',
+    'train: images',
+    'val: images',
+    `nc: ${classes.length}`,
+    'names:',
+    ...classes.map((name, i) => `  ${i}: ${JSON.stringify(name)}`),
+  ].join('\n') + '\n';
+}
+
+export function createYoloZip(images: DatasetImage[], classes: string[]) {
+  return createZip([
+    { name: 'classes.txt', data: classes.join('\n') + '\n' },
+    { name: 'data.yaml', data: dataYaml(classes) },
+    ...images.flatMap(image => [
+      { name: `images/${image.fileName}`, data: image.image },
+      { name: `labels/${datasetBaseName(image.fileName)}.txt`, data: buildYoloLabels(image, classes) },
+    ]),
+  ]);
+}
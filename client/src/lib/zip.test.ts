@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+interface ReadEntry {
+  name: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+// Reads a stored (uncompressed) archive through its central directory
+async function readZip(blob: Blob): Promise<ReadEntry[]> {
+  const buffer = await blob.arrayBuffer();
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+
+  const end = buffer.byteLength - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  expect(position + view.getUint32(end + 12, true)).toBe(end);
+
+  const entries: ReadEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    expect(view.getUint16(position + 10, true)).toBe(0);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, position + 46, nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    expect(view.getUint32(offset + 14, true)).toBe(crc);
+    expect(view.getUint32(offset + 22, true)).toBe(size);
+    const localNameLength = view.getUint16(offset + 26, true);
+    expect(decoder.decode(new Uint8Array(buffer, offset + 30, localNameLength))).toBe(name);
+    const dataStart = offset + 30 + localNameLength + view.getUint16(offset + 28, true);
+
+    entries.push({ name, crc, data: new Uint8Array(buffer, dataStart, size) });
+    position += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('createZip', () => {
+  it('round-trips names and contents through the central directory', async () => {
+    const bytes = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    const entries = await readZip(await createZip([
+      { name: 'labels/classes.txt', data: 'person\ncar\n' },
+      { name: 'images/000001.png', data: new Blob([bytes]) },
+      { name: 'données/é.txt', data: '' },
+    ]));
+
+    expect(entries.map(entry => entry.name)).toEqual(['labels/classes.txt', 'images/000001.png', 'données/é.txt']);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('person\ncar\n');
+    expect(Array.from(entries[1].data)).toEqual(Array.from(bytes));
+    expect(entries[2].data).toHaveLength(0);
+  });
+
+  it('stores the CRC-32 of each entry', async () => {
+    const [hello, empty] = await readZip(await createZip([
+      { name: 'hello.txt', data: 'hello world' },
+      { name: 'empty.txt', data: '' },
+    ]));
+
+    expect(hello.crc).toBe(0x0d4a1185);
+    expect(empty.crc).toBe(0);
+  });
+
+  it('writes an empty archive as just the end record', async () => {
+    const zip = await createZip([]);
+
+    expect(zip.size).toBe(22);
+    expect(zip.type).toBe('application/zip');
+    expect(await readZip(zip)).toEqual([]);
+  });
+});
@@ -0,0 +1,231 @@
+import type { Detection } from './detection';
+import { bboxCentre, denormalizePoint, normalizePoint, pointInPolygon, type Point } from './geometry';
+import { loadSetting, saveSetting } from './settings';
+
+/**
+ * Polygon regions of interest. A detection belongs to a zone when the centre
+ * of its box lies inside the polygon. Zones can restrict detection to their
+ * area ("include"), mask it out ("exclude") or only be monitored.
+ */
+
+export type ZoneFilter = 'none' | 'include' | 'exclude';
+
+export interface Zone {
+  id: string;
+  name: string;
+  /** Normalized frame coordinates, at least three points */
+  points: Point[];
+  filter: ZoneFilter;
+}
+
+export interface ZoneOccupancy {
+  zoneId: string;
+  occupancy: number;
+  byClass: Record<string, number>;
+}
+
+export interface ZoneStats extends ZoneOccupancy {
+  /** Completed visits, i.e. tracks that entered and later left the zone */
+  visits: number;
+  averageDwellMs: number;
+  /** Longest time any object currently inside has been there */
+  currentDwellMs: number;
+}
+
+export const ZONE_FILTERS: { value: ZoneFilter; label: string }[] = [
+  { value: 'none', label: 'Monitor only' },
+  { value: 'include', label: 'Only detect inside' },
+  { value: 'exclude', label: 'Ignore inside' },
+];
+
+const ZONES_SETTING = 'zones';
+const ZONE_COLORS: Record<ZoneFilter, string> = {
+  none: '#a78bfa',
+  include: '#4ade80',
+  exclude: '#f87171',
+};
+
+export function loadZones() {
+  return loadSetting<Zone[]>(ZONES_SETTING, []);
+}
+
+export function saveZones(zones: Zone[]) {
+  saveSetting(ZONES_SETTING, zones);
+}
+
+export function createZone(points: Point[], index: number): Zone {
+  return {
+    id: crypto.randomUUID(),
+    name: `Zone ${index + 1}`,
+    points,
+    filter: 'none',
+  };
+}
+
+export function isInZone(detection: Detection, zone: Zone, width: number, height: number) {
+  return pointInPolygon(normalizePoint(bboxCentre(detection.bbox), width, height), zone.points);
+}
+
+/**
+ * Apply the include/exclude zones: with any include zone, only detections in
+ * one of them are kept; detections in an exclude zone are always dropped.
+ */
+export function filterDetectionsByZones(detections: Detection[], zones: Zone[], width: number, height: number) {
+  const include = zones.filter(zone => zone.filter === 'include');
+  const exclude = zones.filter(zone => zone.filter === 'exclude');
+  if (include.length === 0 && exclude.length === 0) {
+    return detections;
+  }
+
+  return detections.filter(detection =>
+    (include.length === 0 || include.some(zone => isInZone(detection, zone, width, height))) &&
+    !exclude.some(zone => isInZone(detection, zone, width, height))
+  );
+}
+
+// Per-zone counts for a single frame or image
+export function computeZoneOccupancy(detections: Detection[], zones: Zone[], width: number, height: number): ZoneOccupancy[] {
+  return zones.map(zone => {
+    const inside = detections.filter(detection => isInZone(detection, zone, width, height));
+    const byClass: Record<string, number> = {};
+    inside.forEach(detection => {
+      byClass[detection.class] = (byClass[detection.class] ?? 0) + 1;
+    });
+    return { zoneId: zone.id, occupancy: inside.length, byClass };
+  });
+}
+
+/**
+ * Live zone statistics over tracked detections. Dwell time is measured from
+ * the first frame a track is seen inside a zone until the first frame it is
+ * not.
+ */
+export class ZoneMonitor {
+  private zones: Zone[];
+  // zone id → track id → entry timestamp (ms)
+  private entries = new Map<string, Map<number, number>>();
+  private completed = new Map<string, { visits: number; totalDwellMs: number }>();
+  private stats: ZoneStats[] = [];
+
+  constructor(zones: Zone[]) {
+    this.zones = zones;
+  }
+
+  setZones(zones: Zone[]) {
+    this.zones = zones;
+    const ids = new Set(zones.map(zone => zone.id));
+    for (const map of [this.entries, this.completed]) {
+      Array.from(map.keys())
+        .filter(id => !ids.has(id))
+        .forEach(id => map.delete(id));
+    }
+    this.stats = this.stats.filter(stats => ids.has(stats.zoneId));
+  }
+
+  update(detections: Detection[], width: number, height: number, timestamp: number): ZoneStats[] {
+    const occupancy = computeZoneOccupancy(detections, this.zones, width, height);
+
+    this.stats = this.zones.map((zone, i) => {
+      const entries = this.entries.get(zone.id) ?? new Map<number, number>();
+      const completed = this.completed.get(zone.id) ?? { visits: 0, totalDwellMs: 0 };
+      const inside = new Set(
+        detections
+          .filter(detection => detection.trackId !== undefined && isInZone(detection, zone, width, height))
+          .map(detection => detection.trackId!)
+      );
+
+      entries.forEach((enteredAt, trackId) => {
+        if (!inside.has(trackId)) {
+          completed.visits++;
+          completed.totalDwellMs += timestamp - enteredAt;
+          entries.delete(trackId);
+        }
+      });
+      inside.forEach(trackId => {
+        if (!entries.has(trackId)) {
+          entries.set(trackId, timestamp);
+        }
+      });
+      this.entries.set(zone.id, entries);
+      this.completed.set(zone.id, completed);
+
+      return {
+        ...occupancy[i],
+        visits: completed.visits,
+        averageDwellMs: completed.visits > 0 ? completed.totalDwellMs / completed.visits : 0,
+        currentDwellMs: Math.max(0, ...Array.from(entries.values(), enteredAt => timestamp - enteredAt)),
+      };
+    });
+    return this.stats;
+  }
+
+  getStats() {
+    return this.stats;
+  }
+
+  // Drop open visits without counting them, e.g. when the tracker restarts its IDs
+  forgetTracks() {
+    this.entries.clear();
+  }
+
+  reset() {
+    this.entries.clear();
+    this.completed.clear();
+    this.stats = [];
+  }
+}
+
+export function formatDwell(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Draw every zone as a translucent polygon labelled with its occupancy
+export function drawZones(ctx: CanvasRenderingContext2D, zones: Zone[], occupancy: ZoneOccupancy[] = []) {
+  const { width, height } = ctx.canvas;
+
+  zones.forEach(zone => {
+    if (zone.points.length < 2) return;
+    const color = ZONE_COLORS[zone.filter];
+    const points = zone.points.map(point => denormalizePoint(point, width, height));
+
+    ctx.beginPath();
+    points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+    ctx.closePath();
+    ctx.globalAlpha = 0.15;
+    ctx.fillStyle = color;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.stroke();
+
+    const count = occupancy.find(o => o.zoneId === zone.id);
+    const label = count ? `${zone.name} · ${count.occupancy}` : zone.name;
+    ctx.font = 'bold 12px sans-serif';
+    const textWidth = ctx.measureText(label).width;
+    ctx.fillStyle = color;
+    ctx.fillRect(points[0].x, points[0].y - 18, textWidth + 4, 16);
+    ctx.fillStyle = '#0f1419';
+    ctx.fillText(label, points[0].x + 2, points[0].y - 4);
+  });
+}
+
+// Outline of a zone that is still being drawn
+export function drawZoneDraft(ctx: CanvasRenderingContext2D, points: Point[]) {
+  const { width, height } = ctx.canvas;
+  ctx.strokeStyle = ZONE_COLORS.none;
+  ctx.fillStyle = ZONE_COLORS.none;
+  ctx.lineWidth = 2;
+  ctx.setLineDash([6, 4]);
+  ctx.beginPath();
+  points
+    .map(point => denormalizePoint(point, width, height))
+    .forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  ctx.stroke();
+  ctx.setLineDash([]);
+  points.forEach(point => {
+    const { x, y } = denormalizePoint(point, width, height);
+    ctx.fillRect(x - 3, y - 3, 6, 6);
+  });
+}
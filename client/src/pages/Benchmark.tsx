@@ -0,0 +1,379 @@
+import { Button } from '@/components/ui/button';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Slider } from '@/components/ui/slider';
+import { BACKEND_NAMES, type BackendName } from '@/lib/backends';
+import {
+  benchmarkCsv,
+  benchmarkModelKey,
+  benchmarkModels,
+  loadBenchmarkSettings,
+  loadSampleImages,
+  runBenchmark,
+  saveBenchmarkSettings,
+  type BenchmarkImage,
+  type BenchmarkResult,
+  type BenchmarkSettings,
+} from '@/lib/benchmark';
+import { describeModel } from '@/lib/detectors';
+import { downloadBlob, downloadJSON } from '@/lib/download';
+import { formatBytes } from '@/lib/modelCache';
+import { ArrowLeft, Download, Gauge, ImagePlus, Loader2, Play, Square, X } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { toast } from 'sonner';
+import { Link } from 'wouter';
+
+interface ComparisonChartProps {
+  title: string;
+  results: BenchmarkResult[];
+  config: ChartConfig;
+  values: (result: BenchmarkResult) => Record<string, number>;
+  unit: string;
+}
+
+function ComparisonChart({ title, results, config, values, unit }: ComparisonChartProps) {
+  const data = results.map(result => ({ name: `${result.model} · ${result.backend}`, ...values(result) }));
+
+  return (
+    <div className="glass rounded-2xl p-4 glow-cyan">
+      <h4 className="text-sm font-semibold mb-3">{title}</h4>
+      <ChartContainer config={config} className="aspect-[16/9] w-full">
+        <BarChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+          <CartesianGrid vertical={false} strokeDasharray="3 3" />
+          <XAxis dataKey="name" tickLine={false} interval={0} tick={{ fontSize: 10 }} />
+          <YAxis width={48} tickFormatter={(value: number) => `${value}${unit}`} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {Object.keys(config).length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          {Object.keys(config).map(key => (
+            <Bar key={key} dataKey={key} fill={`var(--color-${key})`} radius={4} isAnimationActive={false} />
+          ))}
+        </BarChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+const LATENCY_CHART: ChartConfig = {
+  p50: { label: 'p50', color: 'var(--chart-1)' },
+  p95: { label: 'p95', color: 'hsl(280 70% 65%)' },
+};
+const WARMUP_CHART: ChartConfig = {
+  load: { label: 'Load', color: 'hsl(40 90% 60%)' },
+  warmup: { label: 'Warm-up', color: 'var(--chart-1)' },
+};
+const FPS_CHART: ChartConfig = { fps: { label: 'FPS', color: 'var(--chart-1)' } };
+const MEMORY_CHART: ChartConfig = { megabytes: { label: 'Tensor memory (MB)', color: 'var(--chart-1)' } };
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function toggle<T>(values: T[], value: T) {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+/**
+ * Benchmark Page
+ *
+ * Runs a fixed image set (the bundled samples and/or the user's own images)
+ * through each selected model on each selected TF.js backend, then compares
+ * load and warm-up time, p50/p95 latency, throughput and tensor memory, with
+ * the run downloadable as JSON or CSV.
+ */
+export default function Benchmark() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const [settings, setSettings] = useState<BenchmarkSettings>(loadBenchmarkSettings);
+  const [userImages, setUserImages] = useState<BenchmarkImage[]>([]);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [progress, setProgress] = useState<{ message: string; fraction: number } | null>(null);
+  const [ranAt, setRanAt] = useState<Date | null>(null);
+  const models = benchmarkModels();
+  const selectedModels = models.filter(model => settings.models.includes(benchmarkModelKey(model)));
+  const selectedBackends = BACKEND_NAMES.filter(backend => settings.backends.includes(backend));
+  const measured = results.filter(result => result.metrics);
+  const canRun = selectedModels.length > 0 && selectedBackends.length > 0 && (settings.includeSampleImages || userImages.length > 0);
+
+  const updateSettings = (changes: Partial<BenchmarkSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveBenchmarkSettings(next);
+  };
+
+  const addImages = (files: FileList | null) => {
+    if (!files) return;
+    const images = Array.from(files).filter(file => file.type.startsWith('image/'));
+    setUserImages(current => [...current, ...images.map(file => ({ name: file.name, blob: file }))]);
+  };
+
+  const start = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ message: 'Loading images...', fraction: 0 });
+    try {
+      const images = [...(settings.includeSampleImages ? await loadSampleImages() : []), ...userImages];
+      const run = await runBenchmark(images, selectedModels, selectedBackends, settings.passes, {
+        onProgress: (message, fraction) => setProgress({ message, fraction }),
+        signal: controller.signal,
+      });
+      setResults(run);
+      setRanAt(new Date());
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      console.error('Error running benchmark:', error);
+      toast.error('Benchmark failed');
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const exportJSON = () => {
+    downloadJSON({
+      timestamp: ranAt?.toISOString(),
+      userAgent: navigator.userAgent,
+      passes: settings.passes,
+      images: [...(settings.includeSampleImages ? ['sample images'] : []), ...userImages.map(image => image.name)],
+      results,
+    }, `benchmark-${Date.now()}.json`);
+  };
+
+  const exportCSV = () => {
+    downloadBlob(new Blob([benchmarkCsv(results)], { type: 'text/csv' }), `benchmark-${Date.now()}.csv`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-blue-950/30 flex flex-col">
+      {/* Header */}
+      <header className="border-b border-border/20 bg-card/20 backdrop-blur-xl sticky top-0 z-40">
+        <div className="container py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 bg-accent/20 border border-accent/50 rounded-lg flex items-center justify-center">
+              <Gauge className="w-5 h-5 text-accent" />
+            </div>
+            <h1 className="text-xl font-bold">Detect <span className="text-accent">AI</span> · Benchmark</h1>
+          </div>
+          <Link href="/" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 container py-6 flex flex-col lg:flex-row gap-6">
+        {/* Configuration */}
+        <div className="w-full lg:w-72 shrink-0">
+          <div className="glass border border-accent/30 rounded-2xl p-4 space-y-5 lg:sticky lg:top-24">
+            <div className="space-y-2">
+              <Label>Models</Label>
+              {models.map(model => {
+                const key = benchmarkModelKey(model);
+                return (
+                  <label key={key} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={settings.models.includes(key)}
+                      onCheckedChange={() => updateSettings({ models: toggle(settings.models, key) })}
+                      disabled={progress !== null}
+                    />
+                    {describeModel(model)}
+                  </label>
+                );
+              })}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Backends</Label>
+              {BACKEND_NAMES.map(backend => (
+                <label key={backend} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={settings.backends.includes(backend)}
+                    onCheckedChange={() => updateSettings({ backends: toggle<BackendName>(settings.backends, backend) })}
+                    disabled={progress !== null}
+                  />
+                  {backend}
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Passes</Label>
+                <span className="text-xs text-muted-foreground tabular-nums">{settings.passes}</span>
+              </div>
+              <Slider
+                value={[settings.passes]}
+                onValueChange={([passes]) => updateSettings({ passes })}
+                min={1}
+                max={10}
+                step={1}
+                disabled={progress !== null}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Images</Label>
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={settings.includeSampleImages}
+                  onCheckedChange={(checked) => updateSettings({ includeSampleImages: checked === true })}
+                  disabled={progress !== null}
+                />
+                Bundled sample images
+              </label>
+              {userImages.length > 0 && (
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{userImages.length} of your image{userImages.length === 1 ? '' : 's'}</span>
+                  <button onClick={() => setUserImages([])} className="hover:text-foreground" aria-label="Remove your images">
+                    <X className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept="image/*"
+                onChange={(e) => {
+                  addImages(e.target.files);
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+              <Button variant="outline" size="sm" className="w-full" onClick={() => fileInputRef.current?.click()} disabled={progress !== null}>
+                <ImagePlus />
+                Add images
+              </Button>
+            </div>
+
+            {progress ? (
+              <div className="space-y-2">
+                <Progress value={progress.fraction * 100} />
+                <p className="text-xs text-muted-foreground truncate">{progress.message}</p>
+                <Button variant="destructive" className="w-full" onClick={() => abortRef.current?.abort()}>
+                  <Square />
+                  Stop
+                </Button>
+              </div>
+            ) : (
+              <Button onClick={start} disabled={!canRun} className="w-full bg-accent text-background hover:bg-accent/90">
+                <Play />
+                Run {selectedModels.length * selectedBackends.length} combination{selectedModels.length * selectedBackends.length === 1 ? '' : 's'}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 min-w-0 flex flex-col gap-6">
+          {progress && results.length === 0 ? (
+            <div className="glass p-6 rounded-2xl flex items-center gap-4 glow-cyan">
+              <Loader2 className="w-6 h-6 text-accent animate-spin" />
+              <span className="text-sm font-medium">Benchmarking... {Math.round(progress.fraction * 100)}%</span>
+            </div>
+          ) : results.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Pick models and backends, then run. Each combination loads its own copy of the model on the main thread,
+              warms it up on the first image and times every image for the chosen number of passes.
+            </p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                  Results{ranAt && ` · ${ranAt.toLocaleString()}`}
+                </h3>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={exportJSON}>
+                    <Download />
+                    JSON
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={exportCSV}>
+                    <Download />
+                    CSV
+                  </Button>
+                </div>
+              </div>
+
+              <div className="glass rounded-2xl p-4 glow-cyan overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-muted-foreground border-b border-border/30">
+                      <th className="py-2 text-left font-medium">Model</th>
+                      <th className="py-2 text-left font-medium">Backend</th>
+                      <th className="py-2 text-right font-medium">Load</th>
+                      <th className="py-2 text-right font-medium">Warm-up</th>
+                      <th className="py-2 text-right font-medium">p50</th>
+                      <th className="py-2 text-right font-medium">p95</th>
+                      <th className="py-2 text-right font-medium">FPS</th>
+                      <th className="py-2 text-right font-medium">Tensors</th>
+                      <th className="py-2 text-right font-medium">Memory</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.map(({ model, modelKey, backend, metrics: m, error }) => (
+                      <tr key={`${modelKey}-${backend}`} className="border-b border-border/10 tabular-nums">
+                        <td className="py-1.5">{model}</td>
+                        <td className="py-1.5">{backend}</td>
+                        {m ? (
+                          <>
+                            <td className="py-1.5 text-right">{m.loadMs.toFixed(0)} ms</td>
+                            <td className="py-1.5 text-right">{m.warmupMs.toFixed(0)} ms</td>
+                            <td className="py-1.5 text-right text-accent">{m.p50Ms.toFixed(1)} ms</td>
+                            <td className="py-1.5 text-right">{m.p95Ms.toFixed(1)} ms</td>
+                            <td className="py-1.5 text-right text-accent">{m.fps.toFixed(1)}</td>
+                            <td className="py-1.5 text-right">
+                              {m.tensors}
+                              {m.leakedTensors > 0 && (
+                                <span className="text-destructive" title="Tensors left behind by the timed passes"> (+{m.leakedTensors})</span>
+                              )}
+                            </td>
+                            <td className="py-1.5 text-right">{formatBytes(m.bytes)}</td>
+                          </>
+                        ) : (
+                          <td colSpan={7} className="py-1.5 text-right text-destructive">{error}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {measured.length > 0 && (
+                <div className="grid xl:grid-cols-2 gap-6">
+                  <ComparisonChart
+                    title="Inference latency"
+                    results={measured}
+                    config={LATENCY_CHART}
+                    values={({ metrics: m }) => ({ p50: round(m!.p50Ms), p95: round(m!.p95Ms) })}
+                    unit="ms"
+                  />
+                  <ComparisonChart
+                    title="Throughput"
+                    results={measured}
+                    config={FPS_CHART}
+                    values={({ metrics: m }) => ({ fps: round(m!.fps) })}
+                    unit=""
+                  />
+                  <ComparisonChart
+                    title="Load and warm-up"
+                    results={measured}
+                    config={WARMUP_CHART}
+                    values={({ metrics: m }) => ({ load: round(m!.loadMs, 0), warmup: round(m!.warmupMs, 0) })}
+                    unit="ms"
+                  />
+                  <ComparisonChart
+                    title="Tensor memory"
+                    results={measured}
+                    config={MEMORY_CHART}
+                    values={({ metrics: m }) => ({ megabytes: round(m!.bytes / 1024 / 1024) })}
+                    unit=""
+                  />
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import BlobImage from '@/components/BlobImage';
+import HistoryDetail from '@/components/HistoryDetail';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { useObjectUrl } from '@/hooks/useObjectUrl';
+import {
+  DEFAULT_HISTORY_FILTER,
+  filterHistory,
+  HISTORY_SOURCES,
+  historyClasses,
+  loadHistory,
+  matchingDetections,
+  type HistoryFilter,
+  type HistoryItem,
+} from '@/lib/history';
+import { ArrowLeft, Eye, Film, Loader2, RotateCcw, Search } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Link } from 'wouter';
+
+function RecordingThumbnail({ blob }: { blob: Blob }) {
+  const url = useObjectUrl(blob);
+  return url ? <video src={url} muted preload="metadata" className="w-full h-32 object-cover bg-black" /> : null;
+}
+
+function Thumbnail({ item }: { item: HistoryItem }) {
+  const className = 'w-full h-32 object-cover';
+  switch (item.source) {
+    case 'snapshot':
+      return <BlobImage blob={item.record.image} alt={item.name} className={className} />;
+    case 'batch':
+      return item.record.image ? <BlobImage blob={item.record.image} alt={item.name} className={className} /> : null;
+    case 'recording':
+      return <RecordingThumbnail blob={item.record.annotated} />;
+  }
+}
+
+// Toggle chip used by the class and source filters
+function Chip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+        active ? 'border-accent bg-accent/20 text-accent' : 'border-border/40 text-muted-foreground hover:text-foreground'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+function toggle<T>(values: T[], value: T) {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+}
+
+/**
+ * History Page
+ *
+ * Everything kept in storage (snapshots, batch files and recordings) in one
+ * list, searchable by name and filterable by class, confidence, date and
+ * source, with a detail view for the selected item.
+ */
+export default function History() {
+  const [items, setItems] = useState<HistoryItem[] | null>(null);
+  const [filter, setFilter] = useState<HistoryFilter>(DEFAULT_HISTORY_FILTER);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory()
+      .then(setItems)
+      .catch((error) => {
+        console.error('Error loading history:', error);
+        setItems([]);
+      });
+  }, []);
+
+  const classes = useMemo(() => historyClasses(items ?? []), [items]);
+  const visibleItems = useMemo(() => filterHistory(items ?? [], filter), [items, filter]);
+  const selectedItem = visibleItems.find(item => item.id === selectedId) ?? null;
+  // Memoized so the detail view only redraws when the filters change
+  const selectedDetections = useMemo(
+    () => (selectedItem ? matchingDetections(selectedItem, filter) : []),
+    [selectedItem, filter]
+  );
+
+  const updateFilter = (changes: Partial<HistoryFilter>) => setFilter(current => ({ ...current, ...changes }));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-blue-950/30 flex flex-col">
+      {/* Header */}
+      <header className="border-b border-border/20 bg-card/20 backdrop-blur-xl sticky top-0 z-40">
+        <div className="container py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <div className="w-9 h-9 bg-accent/20 border border-accent/50 rounded-lg flex items-center justify-center">
+              <Eye className="w-5 h-5 text-accent" />
+            </div>
+            <h1 className="text-xl font-bold">Detect <span className="text-accent">AI</span> · History</h1>
+          </div>
+          <Link href="/" className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </Link>
+        </div>
+      </header>
+
+      <main className="flex-1 container py-6 flex flex-col lg:flex-row gap-6">
+        {/* Filters */}
+        <div className="w-full lg:w-72 shrink-0">
+          <div className="glass border border-accent/30 rounded-2xl p-4 space-y-5 lg:sticky lg:top-24">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-semibold text-accent">Filters</h3>
+              <button
+                onClick={() => setFilter(DEFAULT_HISTORY_FILTER)}
+                className="text-muted-foreground hover:text-foreground"
+                aria-label="Reset filters"
+              >
+                <RotateCcw className="w-3.5 h-3.5" />
+              </button>
+            </div>
+
+            <div className="relative">
+              <Search className="w-4 h-4 absolute left-2.5 top-1/2 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                value={filter.query}
+                onChange={(e) => updateFilter({ query: e.target.value })}
+                placeholder="Search file names"
+                className="pl-8"
+                aria-label="Search file names"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Source</Label>
+              <div className="flex flex-wrap gap-1.5">
+                {HISTORY_SOURCES.map(source => (
+                  <Chip
+                    key={source.value}
+                    active={filter.sources.includes(source.value)}
+                    onClick={() => updateFilter({ sources: toggle(filter.sources, source.value) })}
+                  >
+                    {source.label}
+                  </Chip>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Classes</Label>
+              {classes.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No detections stored yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-1.5 max-h-32 overflow-y-auto">
+                  {classes.map(cls => (
+                    <Chip
+                      key={cls}
+                      active={filter.classes.includes(cls)}
+                      onClick={() => updateFilter({ classes: toggle(filter.classes, cls) })}
+                    >
+                      {cls}
+                    </Chip>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label>Confidence</Label>
+                <span className="text-xs text-muted-foreground tabular-nums">
+                  {Math.round(filter.minScore * 100)}–{Math.round(filter.maxScore * 100)}%
+                </span>
+              </div>
+              <Slider
+                value={[filter.minScore * 100, filter.maxScore * 100]}
+                onValueChange={([min, max]) => updateFilter({ minScore: min / 100, maxScore: max / 100 })}
+                min={0}
+                max={100}
+                step={1}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="history-from" className="text-xs">From</Label>
+                <Input
+                  id="history-from"
+                  type="date"
+                  value={filter.from}
+                  onChange={(e) => updateFilter({ from: e.target.value })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="history-to" className="text-xs">To</Label>
+                <Input
+                  id="history-to"
+                  type="date"
+                  value={filter.to}
+                  onChange={(e) => updateFilter({ to: e.target.value })}
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Results */}
+        <div className="flex-1 min-w-0 flex flex-col gap-6">
+          {items === null ? (
+            <div className="glass p-6 rounded-2xl flex items-center gap-4 glow-cyan">
+              <Loader2 className="w-6 h-6 text-accent animate-spin" />
+              <span className="text-sm font-medium">Loading history...</span>
+            </div>
+          ) : (
+            <>
+              <h3 className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">
+                {visibleItems.length} of {items.length} items
+              </h3>
+              {visibleItems.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {items.length === 0 ? 'Nothing saved yet. Snapshots, batch files and recordings appear here.' : 'No items match the filters.'}
+                </p>
+              ) : (
+                <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+                  {visibleItems.map(item => (
+                    <div
+                      key={item.id}
+                      className={`glass rounded-xl overflow-hidden cursor-pointer hover:border-accent/50 transition-all glow-cyan ${
+                        item.id === selectedId ? 'ring-2 ring-accent' : ''
+                      }`}
+                      onClick={() => setSelectedId(item.id)}
+                    >
+                      <div className="relative">
+                        <Thumbnail item={item} />
+                        {item.source === 'recording' && (
+                          <Film className="w-4 h-4 absolute top-2 right-2 text-white drop-shadow" />
+                        )}
+                      </div>
+                      <div className="p-3 space-y-1">
+                        <p className="text-xs font-semibold text-accent">
+                          {matchingDetections(item, filter).length} objects
+                          <span className="text-muted-foreground font-normal">
+                            {' · '}{HISTORY_SOURCES.find(source => source.value === item.source)!.label}
+                          </span>
+                        </p>
+                        <p className="text-xs truncate" title={item.name}>{item.name}</p>
+                        <p className="text-xs text-muted-foreground">{item.timestamp.toLocaleString()}</p>
+                        {item.classes.length > 0 && (
+                          <p className="text-xs text-muted-foreground truncate" title={item.classes.join(', ')}>
+                            {item.classes.join(', ')}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {selectedItem && (
+                <HistoryDetail
+                  item={selectedItem}
+                  detections={selectedDetections}
+                  onClose={() => setSelectedId(null)}
+                />
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -12,12 +12,22 @@ import HomeScreen from '@/components/HomeScreen';
  * - Dark slate background with cyan accents
  * - Emphasis on the detection interface as the hero element
  */
+// Remembered for the session so returning from another page skips the intro
+const APP_LAUNCHED_KEY = 'detect-ai:launched';
+
 export default function Home() {
-  const [showApp, setShowApp] = useState(false);
+  const [showApp, setShowApp] = useState(() => sessionStorage.getItem(APP_LAUNCHED_KEY) === 'true');
 
   if (showApp) {
     return <ObjectDetector />;
   }
 
-  return <HomeScreen onStartApp={() => setShowApp(true)} />;
+  return (
+    <HomeScreen
+      onStartApp={() => {
+        sessionStorage.setItem(APP_LAUNCHED_KEY, 'true');
+        setShowApp(true);
+      }}
+    />
+  );
 }
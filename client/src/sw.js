@@ -0,0 +1,105 @@
+/**
+ * Detect AI service worker
+ *
+ * Template only: the build inlines the precache manifest below (see
+ * vitePluginServiceWorker in vite.config.ts), so every deploy produces a
+ * byte-different worker and browsers pick up the new version.
+ */
+
+const PRECACHE = self.__PRECACHE_MANIFEST__;
+const APP_CACHE = `detect-ai-app-${PRECACHE.version}`;
+const MODEL_CACHE = 'detect-ai-models';
+const MODEL_HOST = 'https://storage.googleapis.com/tfjs-models/';
+
+// Default COCO-SSD architecture, precached so the first offline start works
+const DEFAULT_MODEL_URL = `${MODEL_HOST}savedmodel/ssdlite_mobilenet_v2/model.json`;
+
+async function precacheDefaultModel() {
+  const cache = await caches.open(MODEL_CACHE);
+  const response = await fetch(DEFAULT_MODEL_URL);
+  if (!response.ok) return;
+
+  const modelJson = await response.clone().json();
+  await cache.put(DEFAULT_MODEL_URL, response);
+
+  const baseUrl = DEFAULT_MODEL_URL.slice(0, DEFAULT_MODEL_URL.lastIndexOf('/') + 1);
+  const shardUrls = (modelJson.weightsManifest || []).flatMap(group => group.paths.map(path => baseUrl + path));
+  await cache.addAll(shardUrls);
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(APP_CACHE);
+    await cache.addAll(['/', ...PRECACHE.files.map(file => `/${file}`)]);
+    // The model is a best-effort extra; the app still installs without network access to it
+    await precacheDefaultModel().catch(error => console.warn('Unable to precache model:', error));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(
+      keys
+        .filter(key => key.startsWith('detect-ai-app-') && key !== APP_CACHE)
+        .map(key => caches.delete(key))
+    );
+    await self.clients.claim();
+  })());
+});
+
+// The page asks a waiting worker to take over once the user accepts the update
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
+
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(APP_CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      cache.put(fallbackUrl, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(fallbackUrl);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(cacheName);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  // Client-side routes all resolve to the app shell
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, '/'));
+    return;
+  }
+
+  if (request.url.startsWith(MODEL_HOST)) {
+    event.respondWith(cacheFirst(request, MODEL_CACHE));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request, APP_CACHE));
+  }
+});
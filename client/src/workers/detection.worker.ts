@@ -0,0 +1,92 @@
+import { tensorMemory } from '@/lib/backends';
+import { applyDetectorBackend, describeModel, loadDetector, type Detector } from '@/lib/detectors';
+import type { WorkerRequest, WorkerResponse } from '@/lib/inferenceRuntime';
+
+/**
+ * Detection Worker
+ *
+ * Runs the selected detection model off the main thread. Frames arrive as transferred ImageBitmaps
+ * and only the resulting detections are posted back.
+ */
+
+let detector: Detector | null = null;
+
+function post(message: WorkerResponse) {
+  self.postMessage(message);
+}
+
+function hasWebGL() {
+  const canvas = new OffscreenCanvas(1, 1);
+  return Boolean(canvas.getContext('webgl2') ?? canvas.getContext('webgl'));
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function handleLoad({ id, config }: Extract<WorkerRequest, { type: 'load' }>) {
+  // WASM and CPU run anywhere; WebGL, also the first choice for auto, may only exist on the main thread
+  if ((config.backend === 'webgl' || config.backend === 'auto') && !hasWebGL()) {
+    post({ type: 'error', id, message: 'WebGL is not available in workers' });
+    return;
+  }
+
+  try {
+    post({ type: 'progress', message: `Loading ${describeModel(config.model)}...`, progress: 0.4 });
+    const loaded = await loadDetector(config.model, config.backend, (message, progress) => {
+      post({ type: 'progress', message, progress });
+    });
+    // Keep serving detections with the previous model until the new one is ready
+    detector?.dispose();
+    detector = loaded.detector;
+    post({ type: 'loaded', id, result: { backend: loaded.selection, fromCache: detector.fromCache } });
+  } catch (error) {
+    post({ type: 'error', id, message: errorMessage(error) });
+  }
+}
+
+async function handleSetBackend({ id, backend }: Extract<WorkerRequest, { type: 'setBackend' }>) {
+  if (!detector) {
+    post({ type: 'error', id, message: 'Model is not loaded' });
+    return;
+  }
+
+  try {
+    post({ type: 'backend', id, selection: await applyDetectorBackend(detector, backend) });
+  } catch (error) {
+    post({ type: 'error', id, message: errorMessage(error) });
+  }
+}
+
+async function handleDetect({ id, frame, options }: Extract<WorkerRequest, { type: 'detect' }>) {
+  if (!detector) {
+    frame.close();
+    post({ type: 'error', id, message: 'Model is not loaded' });
+    return;
+  }
+
+  try {
+    const detections = await detector.detect(frame, options);
+    post({ type: 'detections', id, detections });
+  } catch (error) {
+    post({ type: 'error', id, message: errorMessage(error) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'load':
+      handleLoad(message);
+      break;
+    case 'setBackend':
+      handleSetBackend(message);
+      break;
+    case 'detect':
+      handleDetect(message);
+      break;
+    case 'memory':
+      post({ type: 'memory', id: message.id, memory: tensorMemory() });
+      break;
+  }
+};
@@ -16,10 +16,26 @@ async function startServer() {
       ? path.resolve(__dirname, "public")
       : path.resolve(__dirname, "..", "dist", "public");
 
-  app.use(express.static(staticPath));
+  // The service worker, app shell and manifest must always be revalidated so
+  // clients notice a new deploy; hashed build assets never change
+  const NO_CACHE_FILES = ["sw.js", "index.html", "manifest.json"];
+
+  app.use(
+    express.static(staticPath, {
+      setHeaders: (res, filePath) => {
+        const relativePath = path.relative(staticPath, filePath);
+        if (NO_CACHE_FILES.includes(relativePath)) {
+          res.setHeader("Cache-Control", "no-cache");
+        } else if (relativePath.startsWith(`assets${path.sep}`)) {
+          res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+        }
+      },
+    })
+  );
 
   // Handle client-side routing - serve index.html for all routes
   app.get("*", (_req, res) => {
+    res.setHeader("Cache-Control", "no-cache");
     res.sendFile(path.join(staticPath, "index.html"));
   });
 
@@ -1,6 +1,7 @@
 import { jsxLocPlugin } from "@builder.io/vite-plugin-jsx-loc";
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react";
+import { createHash } from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
 import { defineConfig, type Plugin, type ViteDevServer } from "vite";
@@ -150,7 +151,64 @@ function vitePluginManusDebugCollector(): Plugin {
   };
 }
 
-const plugins = [react(), tailwindcss(), jsxLocPlugin(), vitePluginManusRuntime(), vitePluginManusDebugCollector()];
+// =============================================================================
+// Service Worker - Vite Plugin
+// Emits sw.js with the list of build outputs to precache inlined, so every
+// deploy ships a new worker and clients are prompted to update
+// =============================================================================
+
+const SW_TEMPLATE = path.join(PROJECT_ROOT, "client", "src", "sw.js");
+const PUBLIC_DIR = path.join(PROJECT_ROOT, "client", "public");
+// Dev tooling and the unused uncompressed tutorial audio are not worth precaching
+const PRECACHE_EXCLUDE = [/^__manus__\//, /\.wav$/, /^index\.html$/];
+
+function listPublicFiles(dir: string, prefix = ""): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const relative = `${prefix}${entry.name}`;
+    return entry.isDirectory()
+      ? listPublicFiles(path.join(dir, entry.name), `${relative}/`)
+      : [relative];
+  });
+}
+
+/**
+ * Vite plugin to build the service worker
+ * - Precaches every emitted chunk and asset plus the public directory
+ * - Version is a hash of the file list and contents
+ */
+function vitePluginServiceWorker(): Plugin {
+  return {
+    name: "detect-ai-service-worker",
+    apply: "build",
+
+    generateBundle(_options, bundle) {
+      const hash = createHash("sha256");
+      const files: string[] = [];
+
+      for (const output of Object.values(bundle)) {
+        if (output.fileName.endsWith(".map")) continue;
+        files.push(output.fileName);
+        hash.update(output.type === "chunk" ? output.code : output.source);
+      }
+      for (const file of listPublicFiles(PUBLIC_DIR)) {
+        files.push(file);
+        hash.update(fs.readFileSync(path.join(PUBLIC_DIR, file)));
+      }
+
+      const manifest = {
+        version: hash.digest("hex").slice(0, 12),
+        files: files.filter((file) => !PRECACHE_EXCLUDE.some((pattern) => pattern.test(file))).sort(),
+      };
+      const source = fs
+        .readFileSync(SW_TEMPLATE, "utf-8")
+        .replace("self.__PRECACHE_MANIFEST__", JSON.stringify(manifest));
+
+      this.emitFile({ type: "asset", fileName: "sw.js", source });
+    },
+  };
+}
+
+const plugins = [react(), tailwindcss(), jsxLocPlugin(), vitePluginManusRuntime(), vitePluginManusDebugCollector(), vitePluginServiceWorker()];
 
 export default defineConfig({
   plugins,
@@ -163,6 +221,10 @@ export default defineConfig({
   },
   envDir: path.resolve(import.meta.dirname),
   root: path.resolve(import.meta.dirname, "client"),
+  worker: {
+    // The detection worker is created with `type: "module"`
+    format: "es",
+  },
   build: {
     outDir: path.resolve(import.meta.dirname, "dist/public"),
     emptyOutDir: true,